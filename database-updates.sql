@@ -41,6 +41,783 @@ ALTER TABLE transactions
   ADD CONSTRAINT unique_transaction_hash
     UNIQUE (account_id, transaction_hash);
 
+-- 6. Saved CSV import profiles (one per account + header layout)
+CREATE TABLE IF NOT EXISTS import_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  header_signature TEXT NOT NULL,
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  date_format TEXT NOT NULL DEFAULT 'auto',
+  sign_convention TEXT NOT NULL DEFAULT 'as-is',
+  header_row_offset INTEGER NOT NULL DEFAULT 0,
+  delimiter TEXT NOT NULL DEFAULT '',
+  encoding TEXT NOT NULL DEFAULT 'utf-8',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(account_id, header_signature)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_profiles_household_id
+  ON import_profiles(household_id);
+
+CREATE TRIGGER update_import_profiles_updated_at BEFORE UPDATE ON import_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view import profiles in their household"
+  ON import_profiles FOR SELECT
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create import profiles in their household"
+  ON import_profiles FOR INSERT
+  WITH CHECK (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update import profiles in their household"
+  ON import_profiles FOR UPDATE
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete import profiles in their household"
+  ON import_profiles FOR DELETE
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+-- 7. Per-account sign convention for imports
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS invert_amounts BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- 8. Import batches (one per imported file, so a whole import can be undone)
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_format TEXT NOT NULL DEFAULT 'csv',
+  row_count INTEGER NOT NULL DEFAULT 0,
+  imported_count INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  rejected_count INTEGER NOT NULL DEFAULT 0,
+  imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  imported_by_email TEXT,
+  rolled_back_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_household_id
+  ON import_batches(household_id);
+
+CREATE TRIGGER update_import_batches_updated_at BEFORE UPDATE ON import_batches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view import batches in their household"
+  ON import_batches FOR SELECT
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create import batches in their household"
+  ON import_batches FOR INSERT
+  WITH CHECK (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update import batches in their household"
+  ON import_batches FOR UPDATE
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete import batches in their household"
+  ON import_batches FOR DELETE
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_import_batch_id
+  ON transactions(import_batch_id);
+
+-- 9. Dismissed possible-duplicate pairs (so reviewed pairs aren't flagged again)
+CREATE TABLE IF NOT EXISTS duplicate_dismissals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  transaction_id_a UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  transaction_id_b UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(transaction_id_a, transaction_id_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_dismissals_household_id
+  ON duplicate_dismissals(household_id);
+
+ALTER TABLE duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view duplicate dismissals in their household"
+  ON duplicate_dismissals FOR SELECT
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create duplicate dismissals in their household"
+  ON duplicate_dismissals FOR INSERT
+  WITH CHECK (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete duplicate dismissals in their household"
+  ON duplicate_dismissals FOR DELETE
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+-- 10. Spreadsheet sheet name on import profiles ('' = first sheet)
+ALTER TABLE import_profiles
+  ADD COLUMN IF NOT EXISTS sheet_name TEXT NOT NULL DEFAULT '';
+
+-- 11. File name pattern for routing multi-file imports to an account (e.g. "*chase*1234*")
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS import_file_pattern TEXT;
+
+-- 12. Card number suffixes (one statement can cover several cards, e.g. authorized users)
+CREATE TABLE IF NOT EXISTS account_cards (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  member_id UUID REFERENCES household_members(id) ON DELETE SET NULL,
+  card_suffix TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(household_id, card_suffix)
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_cards_household_id
+  ON account_cards(household_id);
+
+CREATE TRIGGER update_account_cards_updated_at BEFORE UPDATE ON account_cards
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE account_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view account cards in their household"
+  ON account_cards FOR SELECT
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create account cards in their household"
+  ON account_cards FOR INSERT
+  WITH CHECK (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update account cards in their household"
+  ON account_cards FOR UPDATE
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete account cards in their household"
+  ON account_cards FOR DELETE
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+-- 13. Statement details from CAMT.053 / MT940 imports
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS value_date DATE,
+  ADD COLUMN IF NOT EXISTS counterparty TEXT,
+  ADD COLUMN IF NOT EXISTS remittance_info TEXT,
+  ADD COLUMN IF NOT EXISTS bank_reference TEXT;
+
+-- 14. How a rule's pattern is matched against the description
+ALTER TABLE rules
+  ADD COLUMN IF NOT EXISTS match_type TEXT NOT NULL DEFAULT 'contains'
+    CHECK (match_type IN ('contains', 'equals', 'starts-with', 'ends-with', 'wildcard', 'regex'));
+
+-- 15. Explicit rule order (lowest priority first) and "stop processing" rules
+ALTER TABLE rules
+  ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS stop_processing BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Keep the order existing rules were evaluated in (newest first)
+UPDATE rules
+SET priority = ranked.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY household_id ORDER BY created_at DESC) AS position
+  FROM rules
+) ranked
+WHERE rules.id = ranked.id
+  AND rules.priority = 0;
+
+CREATE INDEX IF NOT EXISTS idx_rules_household_priority
+  ON rules(household_id, priority);
+
+-- 16. Extra rule conditions (amount, account, expense/income, day of month)
+-- conditions is a JSON array, e.g. [{"type": "amount", "operator": "less-than", "value": 20}]
+ALTER TABLE rules
+  ADD COLUMN IF NOT EXISTS conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS condition_logic TEXT NOT NULL DEFAULT 'all'
+    CHECK (condition_logic IN ('all', 'any'));
+
+-- 17. Rule actions besides category/member, and the transaction fields they set
+ALTER TABLE rules
+  ADD COLUMN IF NOT EXISTS set_vendor TEXT,
+  ADD COLUMN IF NOT EXISTS add_tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS add_note TEXT,
+  ADD COLUMN IF NOT EXISTS mark_transfer BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS mark_reimbursable BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS notes TEXT,
+  ADD COLUMN IF NOT EXISTS is_transfer BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS is_reimbursable BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- 18. Rule hits: which transactions each rule categorized, and when it last did
+-- One row per rule and transaction; matching the same transaction again moves matched_at
+CREATE TABLE IF NOT EXISTS rule_hits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  rule_id UUID NOT NULL REFERENCES rules(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  source TEXT NOT NULL DEFAULT 'import'
+    CHECK (source IN ('import', 'inbox', 'manual', 'retroactive')),
+  matched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(rule_id, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_hits_household_id
+  ON rule_hits(household_id);
+
+ALTER TABLE rule_hits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view rule hits in their household"
+  ON rule_hits FOR SELECT
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create rule hits in their household"
+  ON rule_hits FOR INSERT
+  WITH CHECK (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update rule hits in their household"
+  ON rule_hits FOR UPDATE
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete rule hits in their household"
+  ON rule_hits FOR DELETE
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+-- 19. Dismissed rule suggestions, so they aren't proposed again
+-- suggestion_key is the suggested pattern (lowercase) and category id, e.g. "costco gas|<uuid>"
+CREATE TABLE IF NOT EXISTS rule_suggestion_dismissals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  suggestion_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(household_id, suggestion_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_suggestion_dismissals_household_id
+  ON rule_suggestion_dismissals(household_id);
+
+ALTER TABLE rule_suggestion_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view rule suggestion dismissals in their household"
+  ON rule_suggestion_dismissals FOR SELECT
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create rule suggestion dismissals in their household"
+  ON rule_suggestion_dismissals FOR INSERT
+  WITH CHECK (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete rule suggestion dismissals in their household"
+  ON rule_suggestion_dismissals FOR DELETE
+  USING (
+    household_id IN (
+      SELECT id FROM households WHERE created_by = auth.uid()
+    )
+  );
+
+-- 20. Rule engine in the database, so every insert is categorized the same way
+-- This is the only place rules are matched: imports, the insert trigger, rule testing,
+-- analysis and running rules on existing transactions all call these functions.
+-- Regular expressions use Postgres syntax, which covers what rule patterns usually need
+-- (classes, anchors, alternation, lookahead); validate_rule_pattern in section 22 checks them.
+
+-- The card number a row was imported with, so rules matching card numbers also work on
+-- insert and on existing transactions
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS card_number TEXT;
+
+CREATE OR REPLACE FUNCTION rule_pattern_matches(p_text TEXT, p_pattern TEXT, p_match_type TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF COALESCE(p_text, '') = '' OR COALESCE(p_pattern, '') = '' THEN
+    RETURN FALSE;
+  END IF;
+
+  CASE p_match_type
+    WHEN 'equals' THEN
+      RETURN lower(btrim(p_text)) = lower(btrim(p_pattern));
+    WHEN 'starts-with' THEN
+      RETURN starts_with(lower(p_text), lower(p_pattern));
+    WHEN 'ends-with' THEN
+      RETURN right(lower(rtrim(p_text)), length(p_pattern)) = lower(p_pattern);
+    WHEN 'wildcard' THEN
+      -- * is any text and ? is one character; LIKE's own wildcards match literally
+      RETURN p_text ILIKE replace(replace(replace(replace(replace(
+        p_pattern, '\', '\\'), '%', '\%'), '_', '\_'), '*', '%'), '?', '_');
+    WHEN 'regex' THEN
+      BEGIN
+        RETURN p_text ~* p_pattern;
+      EXCEPTION
+        -- An invalid pattern never matches
+        WHEN invalid_regular_expression THEN
+          RETURN FALSE;
+      END;
+    ELSE
+      RETURN strpos(lower(p_text), lower(p_pattern)) > 0;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Amounts are compared without sign and in cents; conditions missing their data fail
+CREATE OR REPLACE FUNCTION rule_condition_matches(
+  p_condition JSONB,
+  p_amount NUMERIC,
+  p_date DATE,
+  p_account_id UUID,
+  p_account_type TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_amount NUMERIC;
+  v_value NUMERIC;
+  v_day INTEGER;
+  v_from INTEGER;
+  v_to INTEGER;
+BEGIN
+  CASE p_condition->>'type'
+    WHEN 'amount' THEN
+      IF p_amount IS NULL THEN
+        RETURN FALSE;
+      END IF;
+      v_amount := round(abs(p_amount) * 100);
+      v_value := round((p_condition->>'value')::NUMERIC * 100);
+
+      CASE p_condition->>'operator'
+        WHEN 'equals' THEN
+          RETURN v_amount = v_value;
+        WHEN 'less-than' THEN
+          RETURN v_amount < v_value;
+        WHEN 'greater-than' THEN
+          RETURN v_amount > v_value;
+        ELSE
+          RETURN v_amount >= v_value
+            AND v_amount <= round(COALESCE(p_condition->>'max', p_condition->>'value')::NUMERIC * 100);
+      END CASE;
+    WHEN 'account' THEN
+      RETURN p_account_id IS NOT NULL AND (p_condition->'accountIds') ? p_account_id::TEXT;
+    WHEN 'direction' THEN
+      IF p_amount IS NULL THEN
+        RETURN FALSE;
+      END IF;
+      -- Credit card charges are positive; on every other account spending is negative
+      IF p_condition->>'direction' = 'expense' THEN
+        RETURN CASE WHEN p_account_type = 'Credit Card' THEN p_amount > 0 ELSE p_amount < 0 END;
+      END IF;
+      RETURN CASE WHEN p_account_type = 'Credit Card' THEN p_amount < 0 ELSE p_amount > 0 END;
+    WHEN 'day-of-month' THEN
+      IF p_date IS NULL THEN
+        RETURN FALSE;
+      END IF;
+      v_day := EXTRACT(DAY FROM p_date);
+      v_from := (p_condition->>'from')::INTEGER;
+      v_to := (p_condition->>'to')::INTEGER;
+
+      -- A range like 25-5 wraps around the end of the month
+      IF v_from <= v_to THEN
+        RETURN v_day BETWEEN v_from AND v_to;
+      END IF;
+      RETURN v_day >= v_from OR v_day <= v_to;
+    ELSE
+      RETURN FALSE;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Whether one rule's pattern and conditions match a transaction, regardless of the other rules
+CREATE OR REPLACE FUNCTION rule_matches(
+  p_rule rules,
+  p_description TEXT,
+  p_card_number TEXT,
+  p_amount NUMERIC,
+  p_date DATE,
+  p_account_id UUID,
+  p_account_type TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_conditions_match BOOLEAN;
+BEGIN
+  IF NOT (
+    rule_pattern_matches(p_description, p_rule.pattern, p_rule.match_type)
+    OR rule_pattern_matches(p_card_number, p_rule.pattern, p_rule.match_type)
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF COALESCE(jsonb_array_length(p_rule.conditions), 0) = 0 THEN
+    RETURN TRUE;
+  END IF;
+
+  SELECT CASE WHEN p_rule.condition_logic = 'any' THEN bool_or(checks.matches) ELSE bool_and(checks.matches) END
+  INTO v_conditions_match
+  FROM (
+    SELECT rule_condition_matches(c.condition, p_amount, p_date, p_account_id, p_account_type) AS matches
+    FROM jsonb_array_elements(p_rule.conditions) AS c(condition)
+  ) checks;
+
+  RETURN COALESCE(v_conditions_match, FALSE);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Runs a set of rules in priority order. Each matching rule fills in what the rules
+-- before it left unset and adds its tags; a stop_processing rule ends the run.
+-- p_card_number is only known for imported rows; rules can match it instead of the description.
+CREATE OR REPLACE FUNCTION evaluate_rule_set(
+  p_rules rules[],
+  p_description TEXT,
+  p_card_number TEXT,
+  p_amount NUMERIC,
+  p_date DATE,
+  p_account_id UUID,
+  OUT category_id UUID,
+  OUT member_id UUID,
+  OUT vendor TEXT,
+  OUT tags TEXT[],
+  OUT note TEXT,
+  OUT is_transfer BOOLEAN,
+  OUT is_reimbursable BOOLEAN,
+  OUT matched_rule_ids UUID[]
+) AS $$
+DECLARE
+  v_account_type TEXT;
+  v_rule rules%ROWTYPE;
+BEGIN
+  tags := '{}';
+  is_transfer := FALSE;
+  is_reimbursable := FALSE;
+  matched_rule_ids := '{}';
+
+  SELECT a.account_type INTO v_account_type FROM accounts a WHERE a.id = p_account_id;
+
+  FOR v_rule IN
+    SELECT * FROM unnest(p_rules) AS r
+    ORDER BY r.priority, r.created_at
+  LOOP
+    CONTINUE WHEN NOT rule_matches(v_rule, p_description, p_card_number, p_amount, p_date, p_account_id, v_account_type);
+
+    matched_rule_ids := matched_rule_ids || v_rule.id;
+    category_id := COALESCE(category_id, v_rule.category_id);
+    member_id := COALESCE(member_id, v_rule.member_id);
+    vendor := COALESCE(vendor, NULLIF(v_rule.set_vendor, ''));
+    note := COALESCE(note, NULLIF(v_rule.add_note, ''));
+    tags := tags || ARRAY(SELECT t FROM unnest(v_rule.add_tags) AS t WHERE NOT t = ANY(tags));
+    is_transfer := is_transfer OR COALESCE(v_rule.mark_transfer, FALSE);
+    is_reimbursable := is_reimbursable OR COALESCE(v_rule.mark_reimbursable, FALSE);
+
+    EXIT WHEN v_rule.stop_processing;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- The rules to evaluate: ones the app sends as JSON (e.g. a rule still being written,
+-- which needs an id) or, when p_rules is NULL, the household's saved rules
+CREATE OR REPLACE FUNCTION get_rule_set(p_household_id UUID, p_rules JSONB DEFAULT NULL)
+RETURNS rules[] AS $$
+  SELECT CASE
+    WHEN p_rules IS NULL THEN ARRAY(SELECT r FROM rules r WHERE r.household_id = p_household_id)
+    ELSE ARRAY(SELECT r FROM jsonb_populate_recordset(NULL::rules, p_rules) AS r)
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Runs the household's saved rules
+CREATE OR REPLACE FUNCTION evaluate_rules(
+  p_household_id UUID,
+  p_description TEXT,
+  p_card_number TEXT,
+  p_amount NUMERIC,
+  p_date DATE,
+  p_account_id UUID,
+  OUT category_id UUID,
+  OUT member_id UUID,
+  OUT vendor TEXT,
+  OUT tags TEXT[],
+  OUT note TEXT,
+  OUT is_transfer BOOLEAN,
+  OUT is_reimbursable BOOLEAN,
+  OUT matched_rule_ids UUID[]
+) AS $$
+  SELECT *
+  FROM evaluate_rule_set(get_rule_set(p_household_id), p_description, p_card_number, p_amount, p_date, p_account_id);
+$$ LANGUAGE sql STABLE;
+
+-- Evaluates many rows in one call (the import preview). p_rows is a JSON array like
+-- [{"description": "...", "card_number": null, "amount": -12.5, "date": "2024-01-31", "account_id": "<uuid>"}];
+-- results come back in the same order, row_index counting from 0.
+CREATE OR REPLACE FUNCTION evaluate_rules_for_rows(p_household_id UUID, p_rows JSONB)
+RETURNS TABLE (
+  row_index INTEGER,
+  category_id UUID,
+  member_id UUID,
+  vendor TEXT,
+  tags TEXT[],
+  note TEXT,
+  is_transfer BOOLEAN,
+  is_reimbursable BOOLEAN,
+  matched_rule_ids UUID[]
+) AS $$
+  SELECT (input.position - 1)::INTEGER, result.*
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS input(row_data, position)
+  CROSS JOIN LATERAL evaluate_rules(
+    p_household_id,
+    input.row_data->>'description',
+    input.row_data->>'card_number',
+    (input.row_data->>'amount')::NUMERIC,
+    NULLIF(input.row_data->>'date', '')::DATE,
+    (input.row_data->>'account_id')::UUID
+  ) AS result
+  ORDER BY input.position;
+$$ LANGUAGE sql STABLE;
+
+-- Runs the household's saved rules over its existing transactions (all of them, or the
+-- ones in p_transaction_ids), e.g. to preview running rules retroactively. Only matched
+-- transactions are returned: {"<transaction id>": {"category_id": ..., "matched_rule_ids": [...]}}.
+-- One JSON value rather than a table, so large households aren't cut off at the API's row limit.
+CREATE OR REPLACE FUNCTION evaluate_rules_for_transactions(p_household_id UUID, p_transaction_ids UUID[] DEFAULT NULL)
+RETURNS JSONB AS $$
+  WITH rule_set AS (
+    SELECT get_rule_set(p_household_id) AS rules
+  )
+  SELECT COALESCE(jsonb_object_agg(t.id, to_jsonb(result)), '{}'::jsonb)
+  FROM rule_set
+  CROSS JOIN transactions t
+  JOIN accounts a ON a.id = t.account_id
+  CROSS JOIN LATERAL evaluate_rule_set(
+    rule_set.rules, t.description, t.card_number, t.amount, t.date, t.account_id
+  ) AS result
+  WHERE a.household_id = p_household_id
+    AND (p_transaction_ids IS NULL OR t.id = ANY(p_transaction_ids))
+    AND cardinality(result.matched_rule_ids) > 0;
+$$ LANGUAGE sql STABLE;
+
+-- Which of the household's transactions each rule matches on its own, ignoring rule order
+-- and stop_processing: {"<rule id>": ["<transaction id>", ...]}. For testing a rule being
+-- written (p_rules holds it and the other rules) and for analyzing the saved rules.
+CREATE OR REPLACE FUNCTION match_rules_to_transactions(p_household_id UUID, p_rules JSONB DEFAULT NULL)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_object_agg(matches.rule_id, matches.transaction_ids), '{}'::jsonb)
+  FROM (
+    SELECT r.id AS rule_id, jsonb_agg(t.id) AS transaction_ids
+    FROM unnest(get_rule_set(p_household_id, p_rules)) AS r
+    CROSS JOIN transactions t
+    JOIN accounts a ON a.id = t.account_id
+    WHERE a.household_id = p_household_id
+      AND rule_matches(r, t.description, t.card_number, t.amount, t.date, t.account_id, a.account_type)
+    GROUP BY r.id
+  ) matches;
+$$ LANGUAGE sql STABLE;
+
+-- Applies rules to every new transaction, whichever client or script inserts it.
+-- A category or member the insert sets itself (from the file, the card holder) wins
+-- over rules; a rule's vendor wins over the one extracted from the description.
+-- Running it on a row the app already evaluated changes nothing.
+CREATE OR REPLACE FUNCTION apply_rules_to_new_transaction()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_household_id UUID;
+  v_result RECORD;
+BEGIN
+  SELECT a.household_id INTO v_household_id FROM accounts a WHERE a.id = NEW.account_id;
+
+  SELECT * INTO v_result
+  FROM evaluate_rules(v_household_id, NEW.description, NEW.card_number, NEW.amount, NEW.date, NEW.account_id);
+
+  NEW.category_id := COALESCE(NEW.category_id, v_result.category_id);
+  NEW.member_id := COALESCE(NEW.member_id, v_result.member_id);
+  NEW.vendor := COALESCE(v_result.vendor, NULLIF(NEW.vendor, ''));
+  NEW.notes := COALESCE(NULLIF(NEW.notes, ''), v_result.note);
+  NEW.tags := COALESCE(NEW.tags, '{}')
+    || ARRAY(SELECT t FROM unnest(v_result.tags) AS t WHERE NOT t = ANY(COALESCE(NEW.tags, '{}')));
+  NEW.is_transfer := COALESCE(NEW.is_transfer, FALSE) OR v_result.is_transfer;
+  NEW.is_reimbursable := COALESCE(NEW.is_reimbursable, FALSE) OR v_result.is_reimbursable;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_rules_to_new_transaction ON transactions;
+CREATE TRIGGER apply_rules_to_new_transaction BEFORE INSERT ON transactions
+  FOR EACH ROW EXECUTE FUNCTION apply_rules_to_new_transaction();
+
+-- Records a hit for each rule that matched a new transaction. Runs after the insert,
+-- since the hit references the row, and so never for rows skipped as duplicates.
+CREATE OR REPLACE FUNCTION record_rule_hits_for_new_transaction()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_household_id UUID;
+BEGIN
+  SELECT a.household_id INTO v_household_id FROM accounts a WHERE a.id = NEW.account_id;
+
+  INSERT INTO rule_hits (household_id, rule_id, transaction_id, source)
+  SELECT v_household_id, matched.rule_id, NEW.id, 'import'
+  FROM evaluate_rules(v_household_id, NEW.description, NEW.card_number, NEW.amount, NEW.date, NEW.account_id) AS result
+  CROSS JOIN LATERAL unnest(result.matched_rule_ids) AS matched(rule_id)
+  ON CONFLICT (rule_id, transaction_id) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_rule_hits_for_new_transaction ON transactions;
+CREATE TRIGGER record_rule_hits_for_new_transaction AFTER INSERT ON transactions
+  FOR EACH ROW EXECUTE FUNCTION record_rule_hits_for_new_transaction();
+
+-- 21. Saving a new rule order in one statement, so a failed save can't leave it half applied
+-- p_rule_ids lists the household's rules in their new order; priorities start at 1
+CREATE OR REPLACE FUNCTION reorder_rules(p_household_id UUID, p_rule_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE rules r
+  SET priority = ordered.position
+  FROM unnest(p_rule_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE r.id = ordered.id
+    AND r.household_id = p_household_id
+    AND r.priority IS DISTINCT FROM ordered.position;
+$$ LANGUAGE sql;
+
+-- 22. Checking rule patterns in the database that runs them
+-- Postgres regular expressions differ from JavaScript ones (\b is a backspace, there are
+-- no named groups), so the rule form checks them here. Returns why the pattern can't be
+-- used, or NULL when it can.
+CREATE OR REPLACE FUNCTION validate_rule_pattern(p_pattern TEXT, p_match_type TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  IF btrim(COALESCE(p_pattern, '')) = '' THEN
+    RETURN 'Pattern is required';
+  END IF;
+
+  IF p_match_type = 'wildcard' AND btrim(p_pattern) ~ '^[*?]*$' THEN
+    RETURN 'A wildcard pattern needs some text besides * and ?';
+  END IF;
+
+  IF p_match_type = 'regex' THEN
+    -- An unescaped \b would quietly look for a backspace character
+    IF p_pattern ~ '(^|[^\\])(\\\\)*\\b' THEN
+      RETURN 'Use \y for a word boundary; \b means a backspace here';
+    END IF;
+
+    BEGIN
+      IF '' ~* p_pattern THEN
+        RETURN 'This regular expression matches every transaction';
+      END IF;
+    EXCEPTION
+      WHEN invalid_regular_expression THEN
+        RETURN SQLERRM;
+    END;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 23. Undoing an import in one statement, so a failed undo can't delete the
+-- transactions and leave the batch looking untouched. Returns how many were deleted.
+CREATE OR REPLACE FUNCTION rollback_import_batch(p_batch_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM transactions WHERE import_batch_id = p_batch_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE import_batches SET rolled_back_at = NOW() WHERE id = p_batch_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
 -- =====================================================
 -- COMPLETED!
 -- =====================================================
@@ -7,10 +7,14 @@ import Members from './pages/Members'
 import Accounts from './pages/Accounts'
 import Categories from './pages/Categories'
 import Rules from './pages/Rules'
+import RuleAnalysis from './pages/RuleAnalysis'
+import RuleSuggestions from './pages/RuleSuggestions'
 import Transactions from './pages/Transactions'
 import Inbox from './pages/Inbox'
 import Recurring from './pages/Recurring'
 import Analysis from './pages/Analysis'
+import ImportHistory from './pages/ImportHistory'
+import Duplicates from './pages/Duplicates'
 
 function App() {
   return (
@@ -29,10 +33,14 @@ function App() {
         <Route path="accounts" element={<Accounts />} />
         <Route path="categories" element={<Categories />} />
         <Route path="rules" element={<Rules />} />
+        <Route path="rules/analysis" element={<RuleAnalysis />} />
+        <Route path="rules/suggestions" element={<RuleSuggestions />} />
         <Route path="transactions" element={<Transactions />} />
         <Route path="inbox" element={<Inbox />} />
         <Route path="recurring" element={<Recurring />} />
         <Route path="analysis" element={<Analysis />} />
+        <Route path="imports" element={<ImportHistory />} />
+        <Route path="duplicates" element={<Duplicates />} />
       </Route>
     </Routes>
   )
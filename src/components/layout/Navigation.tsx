@@ -10,6 +10,8 @@ const navItems = [
   { path: '/categories', label: 'Categories' },
   { path: '/rules', label: 'Rules' },
   { path: '/transactions', label: 'Transactions' },
+  { path: '/imports', label: 'Imports' },
+  { path: '/duplicates', label: 'Duplicates' },
   { path: '/inbox', label: 'Inbox', showBadge: true },
   { path: '/recurring', label: 'Recurring' },
 ]
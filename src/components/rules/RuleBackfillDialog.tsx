@@ -0,0 +1,238 @@
+import { useState, useEffect, useMemo } from 'react'
+import { evaluateTransactionsOnServer, type Rule } from '@/hooks/useRules'
+import { useTransactions, type TransactionWithDetails } from '@/hooks/useTransactions'
+import { useCategories } from '@/hooks/useCategories'
+import { useMembers } from '@/hooks/useMembers'
+import { useHousehold } from '@/hooks/useHousehold'
+import { recordRuleHits } from '@/hooks/useRuleHits'
+import { previewRuleBackfill, groupRuleBackfillChanges, describeRuleEffectUpdates } from '@/lib/ruleBackfill'
+import type { RuleEvaluation } from '@/lib/ruleMatching'
+
+interface RuleBackfillDialogProps {
+  rules: Rule[] // The saved rules, for their patterns
+  ruleIds: string[] // The rules being run; the rest still take part in the evaluation
+  onClose: () => void
+  onApplied?: () => void
+}
+
+export default function RuleBackfillDialog({ rules, ruleIds, onClose, onApplied }: RuleBackfillDialogProps) {
+  const { household } = useHousehold()
+  // Every transaction, not just the newest page, so older matches are previewed and written too
+  const { transactions, loading, updateTransactions, refetch } = useTransactions(undefined, { all: true })
+  const { getCategoryById, getCategoryDisplayName } = useCategories()
+  const { members } = useMembers()
+  const [includeCategorized, setIncludeCategorized] = useState(false)
+  const [applying, setApplying] = useState(false)
+  // Tagged with the transactions they were worked out for, so a reload evaluates again
+  const [ruleData, setRuleData] = useState<{
+    transactions: TransactionWithDetails[] | null
+    evaluations: Map<string, RuleEvaluation>
+    error: string | null
+  }>({ transactions: null, evaluations: new Map(), error: null })
+
+  useEffect(() => {
+    if (!household || loading) return
+
+    let cancelled = false
+
+    evaluateTransactionsOnServer(household.id)
+      .then((evaluations) => {
+        if (!cancelled) setRuleData({ transactions, evaluations, error: null })
+      })
+      .catch((err) => {
+        console.error('[RuleBackfillDialog] Rule evaluation failed:', err)
+        if (!cancelled) {
+          setRuleData({ transactions, evaluations: new Map(), error: err instanceof Error ? err.message : 'Failed to run rules' })
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [household, loading, transactions])
+
+  const evaluating = loading || ruleData.transactions !== transactions
+
+  const changes = useMemo(
+    () => previewRuleBackfill(ruleData.evaluations, ruleIds, transactions, { includeCategorized }),
+    [ruleData.evaluations, ruleIds, transactions, includeCategorized]
+  )
+
+  const getRulePatterns = (ids: string[]) => {
+    return ids.map((id) => rules.find((r) => r.id === id)?.pattern).filter(Boolean).join(', ')
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount)
+  }
+
+  const getCategoryName = (categoryId: string | null) => {
+    if (!categoryId) return 'None'
+    const category = getCategoryById(categoryId)
+    return category ? getCategoryDisplayName(category) : 'Unknown'
+  }
+
+  const getMemberName = (memberId: string | null) => {
+    if (!memberId) return 'None'
+    return members.find((m) => m.id === memberId)?.name || 'Unknown'
+  }
+
+  const handleApply = async () => {
+    if (!confirm(`Update ${changes.length} transaction${changes.length !== 1 ? 's' : ''}? This can't be undone.`)) return
+
+    setApplying(true)
+
+    let updated = 0
+    let failed: string | null = null
+    const updatedIds = new Set<string>()
+    for (const group of groupRuleBackfillChanges(changes)) {
+      const { error, count } = await updateTransactions(group.transactionIds, group.updates)
+      updated += count
+      group.transactionIds.slice(0, count).forEach((id) => updatedIds.add(id))
+      if (error) {
+        failed = error
+        break
+      }
+    }
+
+    const hits = changes
+      .filter((change) => updatedIds.has(change.transaction.id))
+      .flatMap((change) => change.matchedRuleIds.map((ruleId) => ({ ruleId, transactionId: change.transaction.id })))
+    if (household && hits.length > 0) {
+      await recordRuleHits(household.id, hits, 'retroactive').catch((err) => {
+        console.warn('[RuleBackfillDialog] Failed to record rule hits:', err)
+      })
+    }
+
+    await refetch()
+    onApplied?.()
+    setApplying(false)
+
+    if (failed) {
+      alert(`Updated ${updated} transaction${updated !== 1 ? 's' : ''} before an error: ${failed}`)
+      return
+    }
+
+    alert(`Updated ${updated} transaction${updated !== 1 ? 's' : ''}`)
+    onClose()
+  }
+
+  const title = ruleIds.length === 1
+    ? `Run "${rules.find((r) => r.id === ruleIds[0])?.pattern}" on existing transactions`
+    : 'Run all rules on existing transactions'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg max-w-4xl w-full max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <h2 className="text-xl font-semibold">{title}</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Preview only - nothing changes until you apply. Rules are checked in their usual order.
+          </p>
+          <label className="flex items-center space-x-2 mt-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeCategorized}
+              onChange={(e) => setIncludeCategorized(e.target.checked)}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              disabled={applying}
+            />
+            <span className="text-sm text-gray-700">Include transactions that already have a category</span>
+          </label>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {evaluating ? (
+            <div className="p-6 text-gray-500">Running rules...</div>
+          ) : ruleData.error ? (
+            <div className="p-6 text-red-600">Could not run the rules: {ruleData.error}</div>
+          ) : changes.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No transactions would change</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Member</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Also</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {changes.map((change) => (
+                  <tr key={change.transaction.id}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(change.transaction.date).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      {change.transaction.description}
+                      <div className="text-xs text-gray-500">
+                        {formatCurrency(change.transaction.amount)} · {getRulePatterns(change.matchedRuleIds)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-3 text-sm">
+                      {change.newCategoryId !== change.oldCategoryId ? (
+                        <>
+                          <span className="text-gray-400 line-through">{getCategoryName(change.oldCategoryId)}</span>
+                          {' → '}
+                          <span className="text-green-700 font-medium">{getCategoryName(change.newCategoryId)}</span>
+                        </>
+                      ) : (
+                        <span className="text-gray-500">{getCategoryName(change.oldCategoryId)}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-sm">
+                      {change.newMemberId !== change.oldMemberId ? (
+                        <>
+                          <span className="text-gray-400 line-through">{getMemberName(change.oldMemberId)}</span>
+                          {' → '}
+                          <span className="text-green-700 font-medium">{getMemberName(change.newMemberId)}</span>
+                        </>
+                      ) : (
+                        <span className="text-gray-500">{getMemberName(change.oldMemberId)}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-green-700">
+                      {describeRuleEffectUpdates(change.otherUpdates, change.transaction).map((label) => (
+                        <div key={label}>{label}</div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-between items-center">
+          <span className="text-sm text-gray-600">
+            {changes.length} transaction{changes.length !== 1 ? 's' : ''} would change
+          </span>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              disabled={applying}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={applying || evaluating || changes.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {applying ? 'Applying...' : `Apply to ${changes.length} transaction${changes.length !== 1 ? 's' : ''}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
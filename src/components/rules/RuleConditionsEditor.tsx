@@ -0,0 +1,194 @@
+import type { Account } from '@/hooks/useAccounts'
+import {
+  RULE_CONDITION_TYPES,
+  AMOUNT_OPERATOR_LABELS,
+  createDefaultCondition,
+  type AmountOperator,
+  type RuleCondition,
+  type RuleConditionLogic,
+} from '@/lib/ruleMatching'
+
+interface RuleConditionsEditorProps {
+  conditions: RuleCondition[]
+  logic: RuleConditionLogic
+  accounts: Account[]
+  disabled?: boolean
+  onChange: (conditions: RuleCondition[], logic: RuleConditionLogic) => void
+}
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function RuleConditionsEditor({
+  conditions,
+  logic,
+  accounts,
+  disabled,
+  onChange,
+}: RuleConditionsEditorProps) {
+  const updateCondition = (index: number, condition: RuleCondition) => {
+    onChange(conditions.map((c, i) => (i === index ? condition : c)), logic)
+  }
+
+  const removeCondition = (index: number) => {
+    onChange(conditions.filter((_, i) => i !== index), logic)
+  }
+
+  const renderFields = (condition: RuleCondition, index: number) => {
+    switch (condition.type) {
+      case 'amount':
+        return (
+          <>
+            <select
+              value={condition.operator}
+              onChange={(e) => updateCondition(index, { ...condition, operator: e.target.value as AmountOperator })}
+              className={inputClass}
+              disabled={disabled}
+            >
+              {(Object.keys(AMOUNT_OPERATOR_LABELS) as AmountOperator[]).map((operator) => (
+                <option key={operator} value={operator}>
+                  {AMOUNT_OPERATOR_LABELS[operator]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={isNaN(condition.value) ? '' : condition.value}
+              onChange={(e) => updateCondition(index, { ...condition, value: parseFloat(e.target.value) })}
+              className={`${inputClass} w-28`}
+              disabled={disabled}
+            />
+            {condition.operator === 'between' && (
+              <>
+                <span className="text-sm text-gray-500">and</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={condition.max === undefined || isNaN(condition.max) ? '' : condition.max}
+                  onChange={(e) => updateCondition(index, { ...condition, max: parseFloat(e.target.value) })}
+                  className={`${inputClass} w-28`}
+                  disabled={disabled}
+                />
+              </>
+            )}
+          </>
+        )
+      case 'account':
+        return (
+          <div className="flex flex-wrap gap-3">
+            {accounts.map((account) => (
+              <label key={account.id} className="flex items-center space-x-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={condition.accountIds.includes(account.id)}
+                  onChange={(e) => updateCondition(index, {
+                    ...condition,
+                    accountIds: e.target.checked
+                      ? [...condition.accountIds, account.id]
+                      : condition.accountIds.filter((id) => id !== account.id),
+                  })}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  disabled={disabled}
+                />
+                <span>{account.name}</span>
+              </label>
+            ))}
+          </div>
+        )
+      case 'direction':
+        return (
+          <select
+            value={condition.direction}
+            onChange={(e) => updateCondition(index, { ...condition, direction: e.target.value as 'expense' | 'income' })}
+            className={inputClass}
+            disabled={disabled}
+          >
+            <option value="expense">is an expense</option>
+            <option value="income">is income</option>
+          </select>
+        )
+      case 'day-of-month':
+        return (
+          <>
+            <span className="text-sm text-gray-500">from day</span>
+            <input
+              type="number"
+              min="1"
+              max="31"
+              value={isNaN(condition.from) ? '' : condition.from}
+              onChange={(e) => updateCondition(index, { ...condition, from: parseInt(e.target.value) })}
+              className={`${inputClass} w-20`}
+              disabled={disabled}
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <input
+              type="number"
+              min="1"
+              max="31"
+              value={isNaN(condition.to) ? '' : condition.to}
+              onChange={(e) => updateCondition(index, { ...condition, to: parseInt(e.target.value) })}
+              className={`${inputClass} w-20`}
+              disabled={disabled}
+            />
+          </>
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {conditions.length > 1 && (
+        <div className="flex items-center space-x-2 text-sm text-gray-700">
+          <span>Match</span>
+          <select
+            value={logic}
+            onChange={(e) => onChange(conditions, e.target.value as RuleConditionLogic)}
+            className={inputClass}
+            disabled={disabled}
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          <span>of these conditions</span>
+        </div>
+      )}
+
+      {conditions.map((condition, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2 p-2 bg-gray-50 rounded-md">
+          <select
+            value={condition.type}
+            onChange={(e) => updateCondition(index, createDefaultCondition(e.target.value as RuleCondition['type']))}
+            className={inputClass}
+            disabled={disabled}
+          >
+            {RULE_CONDITION_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+          {renderFields(condition, index)}
+          <button
+            type="button"
+            onClick={() => removeCondition(index)}
+            className="ml-auto text-sm text-red-600 hover:text-red-900"
+            disabled={disabled}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...conditions, createDefaultCondition('amount')], logic)}
+        className="text-sm text-blue-600 hover:text-blue-900"
+        disabled={disabled}
+      >
+        + Add condition
+      </button>
+    </div>
+  )
+}
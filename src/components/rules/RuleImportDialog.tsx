@@ -0,0 +1,301 @@
+import { useState, useEffect, useMemo } from 'react'
+import { validateRulePatternOnServer, type Rule, type NewRule, type RuleUpdates } from '@/hooks/useRules'
+import { useCategories } from '@/hooks/useCategories'
+import { useMembers } from '@/hooks/useMembers'
+import { useAccounts } from '@/hooks/useAccounts'
+import type { CategoryPath } from '@/lib/categoryPaths'
+import {
+  planRulesImport,
+  getExportedRegexPatterns,
+  getRuleImportStatus,
+  RULE_IMPORT_STATUS_LABELS,
+  type RulesExport,
+  type RuleImportStatus,
+} from '@/lib/ruleExport'
+
+interface RuleImportDialogProps {
+  exported: RulesExport
+  fileName: string
+  rules: Rule[]
+  addRules: (newRules: NewRule[]) => Promise<Rule[]>
+  updateRule: (id: string, updates: RuleUpdates) => Promise<Rule>
+  refetchRules: () => Promise<void>
+  onClose: () => void
+}
+
+const STATUS_STYLES: Record<RuleImportStatus, string> = {
+  'new': 'bg-green-100 text-green-800',
+  'conflict': 'bg-red-100 text-red-800',
+  'duplicate': 'bg-gray-100 text-gray-700',
+  'missing-account': 'bg-orange-100 text-orange-800',
+  'nothing-to-do': 'bg-orange-100 text-orange-800',
+  'invalid': 'bg-red-100 text-red-800',
+}
+
+export default function RuleImportDialog({
+  exported,
+  fileName,
+  rules,
+  addRules,
+  updateRule,
+  refetchRules,
+  onClose,
+}: RuleImportDialogProps) {
+  const { categories, createCategoryPath, refetch: refetchCategories } = useCategories()
+  const { members } = useMembers()
+  const { accounts } = useAccounts()
+  const [createMissingCategories, setCreateMissingCategories] = useState(true)
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false)
+  const [importing, setImporting] = useState(false)
+  // The database's verdict on each regular expression, tagged with the file it was checked for
+  const [regexCheck, setRegexCheck] = useState<{ exported: RulesExport | null; errors: Map<string, string | null> }>({
+    exported: null,
+    errors: new Map(),
+  })
+
+  useEffect(() => {
+    let cancelled = false
+
+    const patterns = getExportedRegexPatterns(exported)
+    Promise.all(patterns.map((pattern) =>
+      validateRulePatternOnServer(pattern, 'regex').catch((err) => {
+        console.error('[RuleImportDialog] Pattern check failed:', err)
+        return 'Could not check the regular expression'
+      })
+    )).then((results) => {
+      if (!cancelled) setRegexCheck({ exported, errors: new Map(patterns.map((pattern, i) => [pattern, results[i]])) })
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [exported])
+
+  const checkingPatterns = regexCheck.exported !== exported
+
+  const items = useMemo(
+    () => planRulesImport(exported, { rules, categories, members, accounts }, regexCheck.errors),
+    [exported, rules, categories, members, accounts, regexCheck.errors]
+  )
+
+  const statuses = items.map((item) => getRuleImportStatus(item, { createMissingCategories }))
+  const countOf = (status: RuleImportStatus) => statuses.filter((s) => s === status).length
+
+  // A file from elsewhere may hold anything where text is expected; invalid rules are still listed
+  const asText = (value: unknown) => (typeof value === 'string' && value ? value : '—')
+
+  const formatPath = (path: CategoryPath) => (path.child ? `${path.parent} → ${path.child}` : path.parent)
+  const missingCategories = [...new Set(items.filter((i) => i.missingCategory).map((i) => formatPath(i.missingCategory as CategoryPath)))]
+  const missingMembers = [...new Set(items.map((i) => i.missingMember).filter(Boolean))]
+
+  const handleImport = async () => {
+    setImporting(true)
+
+    try {
+      const known = [...categories]
+      const conflicts = new Set<string>()
+      const categoryIdFor = async (item: typeof items[0]) => {
+        if (item.categoryId || !item.missingCategory || !createMissingCategories) return item.categoryId
+
+        const { error, data } = await createCategoryPath(item.missingCategory, known)
+        if (error) conflicts.add(`${formatPath(item.missingCategory)} (${error})`)
+        return data?.id || null
+      }
+
+      const newRules: NewRule[] = []
+      let updated = 0
+
+      for (const [index, item] of items.entries()) {
+        const status = statuses[index]
+
+        if (status === 'conflict' && overwriteConflicts && item.existingRule) {
+          const { rule } = item
+          await updateRule(item.existingRule.id, {
+            category_id: await categoryIdFor(item),
+            member_id: item.memberId,
+            stop_processing: rule.stop_processing || false,
+            conditions: item.conditions,
+            condition_logic: rule.condition_logic || 'all',
+            set_vendor: rule.set_vendor || null,
+            add_tags: rule.add_tags || [],
+            add_note: rule.add_note || null,
+            mark_transfer: rule.mark_transfer || false,
+            mark_reimbursable: rule.mark_reimbursable || false,
+          })
+          updated++
+          continue
+        }
+
+        if (status !== 'new') continue
+
+        // A rule whose category couldn't be created may have nothing left to do
+        const categoryId = await categoryIdFor(item)
+        if (!categoryId && getRuleImportStatus(item, { createMissingCategories: false }) !== 'new') continue
+
+        const { rule } = item
+        newRules.push({
+          pattern: rule.pattern,
+          categoryId,
+          memberId: item.memberId,
+          options: {
+            matchType: rule.match_type || 'contains',
+            stopProcessing: rule.stop_processing,
+            conditions: item.conditions,
+            conditionLogic: rule.condition_logic,
+            actions: {
+              set_vendor: rule.set_vendor || null,
+              add_tags: rule.add_tags || [],
+              add_note: rule.add_note || null,
+              mark_transfer: rule.mark_transfer || false,
+              mark_reimbursable: rule.mark_reimbursable || false,
+            },
+          },
+        })
+      }
+
+      if (known.length > categories.length) {
+        await refetchCategories()
+      }
+
+      if (newRules.length > 0) {
+        await addRules(newRules)
+      }
+
+      // Several updates in a row leave the local list behind
+      if (updated > 0) {
+        await refetchRules()
+      }
+
+      const summary = `Imported ${newRules.length} rule${newRules.length !== 1 ? 's' : ''}${updated > 0 ? ` and updated ${updated}` : ''}`
+      alert(conflicts.size > 0
+        ? `${summary}. Some categories couldn't be created, so their rules have no category: ${[...conflicts].join('; ')}`
+        : summary)
+      onClose()
+    } catch (error) {
+      alert(`Error: ${error instanceof Error ? error.message : 'Failed to import rules'}`)
+    }
+
+    setImporting(false)
+  }
+
+  const importCount = countOf('new') + (overwriteConflicts ? countOf('conflict') : 0)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg max-w-4xl w-full max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-3">
+          <div>
+            <h2 className="text-xl font-semibold">Import Rules</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {items.length} rule{items.length !== 1 ? 's' : ''} in {fileName}. Imported rules go after your existing ones.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-2 text-xs">
+            {(Object.keys(RULE_IMPORT_STATUS_LABELS) as RuleImportStatus[]).filter((s) => countOf(s) > 0).map((status) => (
+              <span key={status} className={`inline-flex px-2 py-0.5 font-semibold rounded-full ${STATUS_STYLES[status]}`}>
+                {countOf(status)} {RULE_IMPORT_STATUS_LABELS[status].toLowerCase()}
+              </span>
+            ))}
+          </div>
+
+          {missingCategories.length > 0 && (
+            <label className="flex items-start space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={createMissingCategories}
+                onChange={(e) => setCreateMissingCategories(e.target.checked)}
+                className="mt-0.5 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                disabled={importing}
+              />
+              <span className="text-sm text-gray-700">
+                Create {missingCategories.length} missing categor{missingCategories.length !== 1 ? 'ies' : 'y'}:{' '}
+                <span className="text-gray-500">{missingCategories.join(', ')}</span>
+              </span>
+            </label>
+          )}
+
+          {countOf('conflict') > 0 && (
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={overwriteConflicts}
+                onChange={(e) => setOverwriteConflicts(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                disabled={importing}
+              />
+              <span className="text-sm text-gray-700">
+                Replace what conflicting rules do (category, member, conditions and actions) with the imported rules
+              </span>
+            </label>
+          )}
+
+          {missingMembers.length > 0 && (
+            <p className="text-sm text-orange-700">
+              No member named {missingMembers.join(', ')} in this household; those rules are imported without a member.
+            </p>
+          )}
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pattern</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Member</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {items.map((item, index) => (
+                <tr key={index}>
+                  <td className="px-6 py-3 text-sm text-gray-900">{asText(item.rule.pattern)}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500">
+                    {asText(item.rule.category)}
+                    {item.missingCategory && <span className="ml-1 text-orange-700">(new)</span>}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-500">
+                    {asText(item.rule.member)}
+                    {item.missingMember && <span className="ml-1 text-orange-700">(not found)</span>}
+                  </td>
+                  <td className="px-6 py-3 text-sm">
+                    <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[statuses[index]]}`}>
+                      {RULE_IMPORT_STATUS_LABELS[statuses[index]]}
+                    </span>
+                    {item.missingAccounts.length > 0 && (
+                      <div className="text-xs text-gray-500 mt-1">{item.missingAccounts.join(', ')}</div>
+                    )}
+                    {item.invalidReason && (
+                      <div className="text-xs text-gray-500 mt-1">{item.invalidReason}</div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={importing}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={importing || checkingPatterns || importCount === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {importing ? 'Importing...' : checkingPatterns ? 'Checking patterns...' : `Import ${importCount} Rule${importCount !== 1 ? 's' : ''}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import { useMemo } from 'react'
+import type { Rule } from '@/hooks/useRules'
+import { useTransactions } from '@/hooks/useTransactions'
+import { useRuleMatches } from '@/hooks/useRuleMatches'
+import { testRule } from '@/lib/ruleTesting'
+
+interface RuleTestPanelProps {
+  draft: Rule | null // Null while the pattern can't be used yet
+  otherRules: Rule[]
+}
+
+// Enough to judge a pattern without rendering the whole history
+const MAX_LISTED_MATCHES = 20
+
+export default function RuleTestPanel({ draft, otherRules }: RuleTestPanelProps) {
+  const { transactions, loading } = useTransactions()
+  // Only the draft is matched again as it is typed; the other rules are matched once
+  const draftRules = useMemo(() => (draft ? [draft] : null), [draft])
+  const { matches: draftMatches, loading: matching, loaded: draftLoaded, error: draftError } = useRuleMatches(draftRules, transactions)
+  const { matches: otherMatches, loaded: othersLoaded, error: othersError } = useRuleMatches(otherRules, transactions)
+  const error = draftError || othersError
+
+  const result = useMemo(
+    () => (draft && draftLoaded && othersLoaded
+      ? testRule(draft, otherRules, transactions, new Map([...otherMatches, ...draftMatches]))
+      : null),
+    [draft, otherRules, transactions, draftMatches, otherMatches, draftLoaded, othersLoaded]
+  )
+  // Matches older than the loaded transactions
+  const unlistedCount = result ? result.matchCount - result.matches.length : 0
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount)
+  }
+
+  if (loading) {
+    return <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-500">Loading transactions...</div>
+  }
+
+  if (!draft) {
+    return <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-500">Enter a pattern to see what it would match</div>
+  }
+
+  if (error) {
+    return <div className="p-3 bg-gray-50 rounded-md text-sm text-red-600">Could not test the rule: {error}</div>
+  }
+
+  if (!result) {
+    return <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-500">Checking transactions...</div>
+  }
+
+  return (
+    <div className="p-3 bg-gray-50 rounded-md space-y-3">
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span className="font-medium text-gray-900">
+          Matches {result.matchCount} existing transaction{result.matchCount !== 1 ? 's' : ''}
+        </span>
+        {matching && <span className="text-gray-500">Updating...</span>}
+        {result.recategorizedCount > 0 && (
+          <span className="text-orange-700">
+            {result.recategorizedCount} currently in a different category
+          </span>
+        )}
+      </div>
+
+      {result.shadowedBy.length > 0 && (
+        <div className="text-sm text-orange-800">
+          <span className="font-medium">Shadowed by earlier rules:</span>{' '}
+          {result.shadowedBy.map((overlap) => `"${overlap.rule.pattern}" (${overlap.count})`).join(', ')}
+        </div>
+      )}
+
+      {result.shadows.length > 0 && (
+        <div className="text-sm text-blue-800">
+          <span className="font-medium">Takes precedence over later rules:</span>{' '}
+          {result.shadows.map((overlap) => `"${overlap.rule.pattern}" (${overlap.count})`).join(', ')}
+        </div>
+      )}
+
+      {result.matches.length > 0 && (
+        <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <tbody className="divide-y divide-gray-200">
+              {result.matches.slice(0, MAX_LISTED_MATCHES).map((transaction) => (
+                <tr key={transaction.id}>
+                  <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-500">
+                    {new Date(transaction.date).toLocaleDateString()}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-gray-900">{transaction.description}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-500">
+                    {transaction.category?.name || 'Uncategorized'}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-xs text-right text-gray-900">
+                    {formatCurrency(transaction.amount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {result.matches.length > MAX_LISTED_MATCHES && (
+            <div className="px-3 py-2 text-xs text-gray-500">
+              and {result.matches.length - MAX_LISTED_MATCHES} more
+            </div>
+          )}
+        </div>
+      )}
+
+      {unlistedCount > 0 && (
+        <div className="text-xs text-gray-500">
+          {unlistedCount} older match{unlistedCount !== 1 ? 'es are' : ' is'} not loaded here, so not listed or checked for a different category
+        </div>
+      )}
+    </div>
+  )
+}
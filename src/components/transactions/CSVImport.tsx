@@ -1,168 +1,333 @@
-import { useState, useRef } from 'react'
-import Papa from 'papaparse'
+import { useState, useRef, useMemo, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import { useAccounts } from '@/hooks/useAccounts'
-import { useTransactions } from '@/hooks/useTransactions'
-import { useRules } from '@/hooks/useRules'
-import { extractVendor, createTransactionHash } from '@/lib/vendorExtraction'
-
-interface ParsedRow {
-  [key: string]: string
-}
+import { useTransactions, findExistingHashes, findTransactionsInRange, type Transaction } from '@/hooks/useTransactions'
+import { useHousehold } from '@/hooks/useHousehold'
+import { evaluateRulesOnServer } from '@/hooks/useRules'
+import { useCategories } from '@/hooks/useCategories'
+import { useImportProfiles, type ImportProfile } from '@/hooks/useImportProfiles'
+import { useAccountCards } from '@/hooks/useAccountCards'
+import { useImportBatches } from '@/hooks/useImportBatches'
+import ImportPreviewTable from './ImportPreviewTable'
+import MultiFileImport from './MultiFileImport'
+import { extractVendor } from '@/lib/vendorExtraction'
+import {
+  detectFileFormat,
+  isTabularFormat,
+  type StatementFormat,
+  type StatementTransaction,
+} from '@/lib/statementImport'
+import {
+  validateImportRows,
+  isImportable,
+  createRejectedRowsCSV,
+  type ImportRowEdit,
+  type ValidatedImportRow,
+} from '@/lib/importValidation'
+import {
+  parseTableFile,
+  parseStatementFile,
+  getProfileFileOptions,
+  findMatchingProfile,
+  getAccountSignConvention,
+  getEffectiveDateFormat,
+  isMappingComplete,
+  buildTableRows,
+  buildStatementRows,
+  applyRowEdit,
+  finalizeImportRows,
+  getImportRuleInputs,
+  getRuleInputKey,
+  getDuplicateLookupRange,
+  getImportAccountIds,
+  markPossibleDuplicates,
+  type ImportRuleEvaluations,
+} from '@/lib/importPipeline'
+import { splitCategoryPath, findCategoryByPath } from '@/lib/categoryPaths'
+import {
+  type ParsedTable,
+  createHeaderSignature,
+  detectColumnMapping,
+  EMPTY_COLUMN_MAPPING,
+  DEFAULT_FILE_OPTIONS,
+  DATE_FORMATS,
+  DELIMITERS,
+  ENCODINGS,
+  type ParsedRow,
+  type ColumnMapping,
+  type CSVFileOptions,
+  type DateFormat,
+  type SignConvention,
+} from '@/lib/csvParsing'
 
 export default function CSVImport() {
   const { accounts } = useAccounts()
   const { importTransactions } = useTransactions()
-  const { rules } = useRules()
+  const { household } = useHousehold()
+  const { categories, createCategoryPath, refetch: refetchCategories, getCategoryById, getCategoryDisplayName } = useCategories()
+  const { profiles, saveProfile } = useImportProfiles()
+  const { cards } = useAccountCards()
+  const { createBatch, finishBatch, discardBatch } = useImportBatches()
 
   const [selectedAccount, setSelectedAccount] = useState('')
   const [csvData, setCsvData] = useState<ParsedRow[]>([])
+  const [statementRows, setStatementRows] = useState<StatementTransaction[]>([])
+  const [statementFormat, setStatementFormat] = useState<StatementFormat>('csv')
+  const [createMissingCategories, setCreateMissingCategories] = useState(true)
   const [headers, setHeaders] = useState<string[]>([])
-  const [columnMapping, setColumnMapping] = useState({
-    date: '',
-    description: '',
-    amount: '',
-    cardNumber: '',
-  })
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>(EMPTY_COLUMN_MAPPING)
+  const [uploadedFile, setUploadedFile] = useState<File | null>(null)
+  const [fileOptions, setFileOptions] = useState<CSVFileOptions>(DEFAULT_FILE_OPTIONS)
+  const [fileLayout, setFileLayout] = useState<Pick<ParsedTable, 'leadingLines' | 'sheetNames'>>({ leadingLines: [], sheetNames: [] })
+  const [dateFormat, setDateFormat] = useState<DateFormat>('auto')
+  const [signConvention, setSignConvention] = useState<SignConvention>('as-is')
+  const [matchedProfile, setMatchedProfile] = useState<ImportProfile | null>(null)
+  const [saveAsProfile, setSaveAsProfile] = useState(true)
+  const [rowEdits, setRowEdits] = useState<Record<number, ImportRowEdit>>({})
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set())
+  // What's already in the account, tagged with the lookup it answers so stale results are ignored
+  const [existingData, setExistingData] = useState<{
+    key: string
+    hashes: Set<string>
+    nearby: Pick<Transaction, 'id' | 'account_id' | 'date' | 'description' | 'amount' | 'vendor'>[]
+  }>({ key: '', hashes: new Set(), nearby: [] })
+  // Rule results from the database, tagged the same way
+  const [ruleData, setRuleData] = useState<{ key: string; evaluations: ImportRuleEvaluations }>({ key: '', evaluations: new Map() })
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null)
   const [step, setStep] = useState<'upload' | 'map' | 'preview' | 'complete'>('upload')
   const [importing, setImporting] = useState(false)
   const [error, setError] = useState('')
-  const [importResult, setImportResult] = useState<{ count: number; duplicates?: number } | null>(null)
+  const [importResult, setImportResult] = useState<{ count: number; duplicates?: number; rejected: number; categoryConflicts: string[] } | null>(null)
+  const [multiFiles, setMultiFiles] = useState<File[]>([])
+  const [dragActive, setDragActive] = useState(false)
 
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const selectedAccountObject = accounts.find(a => a.id === selectedAccount)
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
+    handleFilesSelected(Array.from(e.target.files || []))
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragActive(false)
+    handleFilesSelected(Array.from(e.dataTransfer.files))
+  }
+
+  const handleFilesSelected = async (files: File[]) => {
+    if (files.length === 0) return
 
     setError('')
 
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        if (results.data.length === 0) {
-          setError('The CSV file is empty')
-          return
-        }
+    // Several files at once are routed to their accounts and previewed side by side
+    if (files.length > 1) {
+      setMultiFiles(files)
+      return
+    }
 
-        const data = results.data as ParsedRow[]
-        const fileHeaders = results.meta.fields || []
+    const file = files[0]
+    if (!selectedAccount && profiles.length === 0) {
+      setError('Select an account first, or drop several files to route them automatically')
+      return
+    }
 
-        setCsvData(data)
-        setHeaders(fileHeaders)
-        setStep('map')
+    // Fixes and exclusions are keyed by row number, so they only apply to the file they were made on
+    setRowEdits({})
+    setExcludedRows(new Set())
+    setUploadedFile(file)
 
-        // Try to auto-detect columns
-        const lowerHeaders = fileHeaders.map(h => h.toLowerCase())
-
-        // Auto-detect date column
-        const dateCol = fileHeaders.find((_, i) =>
-          lowerHeaders[i].includes('date') || lowerHeaders[i].includes('posted')
-        )
-
-        // Auto-detect description column
-        const descCol = fileHeaders.find((_, i) =>
-          lowerHeaders[i].includes('description') ||
-          lowerHeaders[i].includes('memo') ||
-          lowerHeaders[i].includes('merchant') ||
-          lowerHeaders[i].includes('name')
-        )
-
-        // Auto-detect amount column
-        const amountCol = fileHeaders.find((_, i) =>
-          lowerHeaders[i].includes('amount') ||
-          lowerHeaders[i].includes('debit') ||
-          lowerHeaders[i].includes('credit')
-        )
-
-        // Auto-detect card number column
-        const cardCol = fileHeaders.find((_, i) =>
-          lowerHeaders[i].includes('card') ||
-          lowerHeaders[i].includes('card no') ||
-          lowerHeaders[i].includes('cardno') ||
-          lowerHeaders[i].includes('card number')
-        )
-
-        setColumnMapping({
-          date: dateCol || '',
-          description: descCol || '',
-          amount: amountCol || '',
-          cardNumber: cardCol || '',
-        })
-      },
-      error: (err) => {
-        setError(`Failed to parse CSV: ${err.message}`)
-      },
-    })
-  }
+    let format: StatementFormat
+    try {
+      format = await detectFileFormat(file)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unsupported file')
+      return
+    }
 
-  const handleMapColumns = () => {
-    if (!columnMapping.date || !columnMapping.description || !columnMapping.amount) {
-      setError('Please map all required columns')
+    if (!isTabularFormat(format)) {
+      handleStatementUpload(file, format)
       return
     }
 
-    setError('')
-    setStep('preview')
+    handleTableUpload(file, format)
   }
 
-  const parseAmount = (amountStr: string): number => {
-    if (!amountStr || amountStr.trim() === '') {
-      console.warn('[CSVImport] Empty amount string, defaulting to 0')
-      return 0
-    }
+  const applyParsedTable = (parsed: ParsedTable) => {
+    setCsvData(parsed.rows)
+    setHeaders(parsed.headers)
+    setFileLayout({ leadingLines: parsed.leadingLines, sheetNames: parsed.sheetNames })
+  }
+
+  const handleTableUpload = async (file: File, format: StatementFormat) => {
+    const formatName = format === 'xlsx' ? 'spreadsheet' : 'CSV'
+    setStatementFormat(format)
+
+    try {
+      const match = await findMatchingProfile(file, profiles, selectedAccount)
+
+      // Cards from the same bank share a layout, so another account's profile must not
+      // override the account the user picked; its layout is still a good starting mapping
+      if (match && selectedAccount && match.profile.account_id !== selectedAccount) {
+        const { profile, parsed } = match
+        console.log('[CSVImport] Using the layout of another account\'s profile:', profile.name)
+
+        setFileOptions(getProfileFileOptions(profile))
+        setDateFormat(profile.date_format)
+        setSignConvention(getAccountSignConvention(selectedAccountObject))
+        setColumnMapping({ ...EMPTY_COLUMN_MAPPING, ...profile.column_mapping })
+        applyParsedTable(parsed)
+        setMatchedProfile(null)
+        setStep('map')
+        return
+      }
+
+      if (match) {
+        const { profile, parsed } = match
+        console.log('[CSVImport] Matched import profile:', profile.name)
+
+        setSelectedAccount(profile.account_id)
+        setFileOptions(getProfileFileOptions(profile))
+        setDateFormat(profile.date_format)
+        setSignConvention(profile.sign_convention)
+        setColumnMapping({ ...EMPTY_COLUMN_MAPPING, ...profile.column_mapping })
+        applyParsedTable(parsed)
+        setMatchedProfile(profile)
+        setStep('preview')
+        return
+      }
 
-    // Remove currency symbols, commas, and whitespace
-    const cleaned = amountStr.replace(/[$,\s]/g, '')
+      const parsed = await parseTableFile(file, DEFAULT_FILE_OPTIONS)
 
-    // Handle parentheses for negative numbers
-    if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
-      const value = parseFloat(cleaned.slice(1, -1))
-      if (isNaN(value)) {
-        console.warn('[CSVImport] Invalid amount in parentheses:', amountStr, 'defaulting to 0')
-        return 0
+      if (parsed.rows.length === 0) {
+        setError(`The ${formatName} file is empty`)
+        return
       }
-      return -value
+
+      setFileOptions(DEFAULT_FILE_OPTIONS)
+      setDateFormat('auto')
+      setSignConvention(getAccountSignConvention(selectedAccountObject))
+      setMatchedProfile(null)
+      applyParsedTable(parsed)
+      // Try to auto-detect columns
+      setColumnMapping(detectColumnMapping(parsed.headers))
+      setStep('map')
+    } catch (err) {
+      setError(`Failed to parse ${formatName}: ${err instanceof Error ? err.message : 'Unknown error'}`)
     }
+  }
 
-    const value = parseFloat(cleaned)
-    if (isNaN(value)) {
-      console.warn('[CSVImport] Invalid amount:', amountStr, 'defaulting to 0')
-      return 0
+  // Re-reads the file when the header offset, delimiter, encoding or sheet changes
+  const handleFileOptionsChange = async (updates: Partial<CSVFileOptions>) => {
+    if (!uploadedFile) return
+
+    const options = { ...fileOptions, ...updates }
+    setFileOptions(options)
+
+    try {
+      const parsed = await parseTableFile(uploadedFile, options)
+      applyParsedTable(parsed)
+      setColumnMapping(detectColumnMapping(parsed.headers))
+      setRowEdits({})
+      setExcludedRows(new Set())
+      setError(parsed.rows.length === 0 ? 'No data rows found with these settings' : '')
+    } catch (err) {
+      setError(`Failed to parse file: ${err instanceof Error ? err.message : 'Unknown error'}`)
     }
+  }
+
+  const handleStatementUpload = async (file: File, format: StatementFormat) => {
+    const formatName = format.toUpperCase()
+
+    try {
+      const rows = await parseStatementFile(file, format)
 
-    return value
+      if (rows.length === 0) {
+        setError(`No transactions found in the ${formatName} file`)
+        return
+      }
+
+      // Statement formats carry their own structure, so there is nothing to map
+      setStatementRows(rows)
+      setStatementFormat(format)
+      setStep('preview')
+    } catch (err) {
+      setError(`Failed to parse ${formatName}: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
   }
 
-  const parseDate = (dateStr: string): string => {
-    // Try to parse various date formats and convert to YYYY-MM-DD
-    const date = new Date(dateStr)
+  // Maps each category path found in the file to a category id, creating missing ones if requested.
+  // Paths that can't be created (a name already used under another parent) are returned as conflicts.
+  const resolveFileCategories = async (categoryPaths: string[]) => {
+    const resolved = new Map<string, string | null>()
+    const conflicts: string[] = []
+    const known = [...categories]
+    let created = false
+
+    for (const categoryPath of categoryPaths) {
+      if (resolved.has(categoryPath)) continue
+
+      const path = splitCategoryPath(categoryPath)
+      let category = path ? findCategoryByPath(known, path) : null
 
-    if (isNaN(date.getTime())) {
-      throw new Error(`Invalid date: ${dateStr}`)
+      if (!category && path && createMissingCategories) {
+        const countBefore = known.length
+        const result = await createCategoryPath(path, known)
+        created = created || known.length > countBefore
+        category = result.data
+        if (result.error) conflicts.push(`${categoryPath} (${result.error})`)
+      }
+
+      resolved.set(categoryPath, category?.id || null)
+    }
+
+    if (created) {
+      await refetchCategories()
     }
 
-    return date.toISOString().split('T')[0]
+    return { resolved, conflicts }
   }
 
-  const applyCategorization = (description: string, cardNumber?: string): { categoryId: string | null; memberId: string | null } => {
-    // Check each rule to see if it matches the description or card number (case-insensitive)
-    const lowerDescription = description.toLowerCase()
-    const lowerCardNumber = cardNumber?.toLowerCase() || ''
+  const handleAccountChange = (accountId: string) => {
+    setSelectedAccount(accountId)
 
-    for (const rule of rules) {
-      const lowerPattern = rule.pattern.toLowerCase()
+    // A matched profile already carries its own sign convention
+    if (!matchedProfile) {
+      setSignConvention(getAccountSignConvention(accounts.find(a => a.id === accountId)))
+    }
+  }
 
-      // Check if pattern matches description or card number
-      if (lowerDescription.includes(lowerPattern) || (lowerCardNumber && lowerCardNumber.includes(lowerPattern))) {
-        return {
-          categoryId: rule.category_id,
-          memberId: rule.member_id,
-        }
-      }
+  const handleMapColumns = () => {
+    if (!isMappingComplete(columnMapping)) {
+      setError('Please map all required columns')
+      return
     }
 
-    return { categoryId: null, memberId: null }
+    setError('')
+    setStep('preview')
+  }
+
+  const saveCurrentProfile = async () => {
+    const account = accounts.find(a => a.id === selectedAccount)
+
+    const { error } = await saveProfile({
+      account_id: selectedAccount,
+      name: matchedProfile?.account_id === selectedAccount
+        ? matchedProfile.name
+        : `${account?.name || 'Account'} import`,
+      header_signature: createHeaderSignature(headers),
+      column_mapping: columnMapping,
+      date_format: dateFormat,
+      sign_convention: signConvention,
+      header_row_offset: fileOptions.headerRowOffset,
+      delimiter: fileOptions.delimiter,
+      encoding: fileOptions.encoding,
+      sheet_name: fileOptions.sheetName,
+    })
+
+    // Not fatal - the transactions are already imported
+    if (error) {
+      console.warn('[CSVImport] Failed to save import profile:', error)
+    }
   }
 
   const handleImport = async () => {
@@ -175,39 +340,84 @@ export default function CSVImport() {
     setError('')
 
     try {
-      const transactionsToImport = csvData.map(row => {
-        const description = row[columnMapping.description]
-        const cardNumber = columnMapping.cardNumber ? row[columnMapping.cardNumber] : undefined
-        const { categoryId, memberId } = applyCategorization(description, cardNumber)
-
-        const date = parseDate(row[columnMapping.date])
-        const amount = parseAmount(row[columnMapping.amount])
-        const vendor = extractVendor(description)
-        const transactionHash = createTransactionHash(date, description, amount, selectedAccount)
-
-        return {
-          date,
-          description,
-          amount,
-          vendor,
-          transaction_hash: transactionHash,
-          category_id: categoryId,
-          member_id: memberId,
-        }
+      const rowsToImport = validatedRows.filter(r => isImportable(r.status) && !excludedRows.has(r.rowNumber))
+
+      if (rowsToImport.length === 0) {
+        setError('There are no rows left to import')
+        return
+      }
+
+      const { resolved: fileCategories, conflicts: categoryConflicts } = await resolveFileCategories(
+        rowsToImport.map(r => r.fileCategory).filter(Boolean) as string[]
+      )
+
+      const transactionsToImport = rowsToImport.map(row => ({
+        date: row.date as string,
+        description: row.description,
+        amount: row.amount as number,
+        vendor: row.ruleActions.vendor || extractVendor(row.description),
+        transaction_hash: row.hash || undefined,
+        // The file's own category (QIF) wins over rules - it is how the user categorized it before
+        category_id: (row.fileCategory && fileCategories.get(row.fileCategory)) || row.categoryId,
+        member_id: row.memberId,
+        account_id: row.accountId,
+        value_date: row.valueDate,
+        counterparty: row.counterparty,
+        remittance_info: row.remittanceInfo,
+        bank_reference: row.externalId,
+        card_number: row.cardNumber,
+        tags: row.ruleActions.tags,
+        notes: row.ruleActions.note,
+        is_transfer: row.ruleActions.isTransfer,
+        is_reimbursable: row.ruleActions.isReimbursable,
+      }))
+
+      const { error: batchError, data: batch } = await createBatch({
+        account_id: selectedAccount,
+        file_name: uploadedFile?.name || 'Unknown file',
+        file_format: statementFormat,
+        row_count: validatedRows.length,
+        rejected_count: rejectedRows.length - duplicateRowCount,
       })
 
+      if (batchError || !batch) {
+        setError(batchError || 'Failed to record import')
+        return
+      }
+
       console.log('[CSVImport] Importing transactions:', transactionsToImport.length)
       console.log('[CSVImport] Sample transaction:', transactionsToImport[0])
 
-      const { error, count, duplicates } = await importTransactions(selectedAccount, transactionsToImport)
+      const { error, count, duplicates } = await importTransactions(
+        selectedAccount,
+        transactionsToImport,
+        batch.id,
+        (done, total) => setImportProgress({ done, total })
+      )
 
       if (error) {
         console.error('[CSVImport] Import error:', error)
-        setError(error)
+        // Keep the batch when some chunks made it in, so they can still be undone from history
+        if (count > 0) {
+          await finishBatch(batch.id, { imported_count: count, duplicate_count: 0 })
+          setError(`${error} (${count} transactions were imported before the error; undo them from Import History if needed)`)
+        } else {
+          await discardBatch(batch.id)
+          setError(error)
+        }
       } else {
+        // Duplicates flagged in the preview plus any the database skipped (e.g. imported meanwhile)
+        const totalDuplicates = duplicateRowCount + (duplicates || 0)
+        await finishBatch(batch.id, { imported_count: count, duplicate_count: totalDuplicates })
+
         console.log('[CSVImport] Successfully imported:', count, 'transactions')
         console.log('[CSVImport] Skipped duplicates:', duplicates || 0)
-        setImportResult({ count, duplicates })
+
+        if (statementRows.length === 0 && saveAsProfile) {
+          await saveCurrentProfile()
+        }
+
+        setImportResult({ count, duplicates: totalDuplicates, rejected: rejectedRows.length - duplicateRowCount, categoryConflicts })
         setStep('complete')
       }
     } catch (err) {
@@ -215,30 +425,203 @@ export default function CSVImport() {
       setError(err instanceof Error ? err.message : 'Failed to import transactions')
     } finally {
       setImporting(false)
+      setImportProgress(null)
     }
   }
 
   const handleReset = () => {
     setCsvData([])
+    setStatementRows([])
+    setStatementFormat('csv')
     setHeaders([])
-    setColumnMapping({ date: '', description: '', amount: '', cardNumber: '' })
+    setColumnMapping(EMPTY_COLUMN_MAPPING)
+    setUploadedFile(null)
+    setFileOptions(DEFAULT_FILE_OPTIONS)
+    setFileLayout({ leadingLines: [], sheetNames: [] })
+    setDateFormat('auto')
+    setSignConvention('as-is')
+    setMatchedProfile(null)
+    setSaveAsProfile(true)
+    setRowEdits({})
+    setExcludedRows(new Set())
     setStep('upload')
     setError('')
     setImportResult(null)
+    setMultiFiles([])
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
   }
 
-  const previewData = csvData.slice(0, 5).map(row => ({
-    date: row[columnMapping.date],
-    description: row[columnMapping.description],
-    amount: row[columnMapping.amount],
-  }))
+  const detectedDateFormat = useMemo(
+    () => getEffectiveDateFormat(csvData, columnMapping, 'auto'),
+    [csvData, columnMapping]
+  )
+  const effectiveDateFormat = dateFormat === 'auto' ? detectedDateFormat : dateFormat
+
+  const sourceRows = statementRows.length > 0
+    ? buildStatementRows(statementRows, getAccountSignConvention(selectedAccountObject))
+    : buildTableRows(csvData, columnMapping, effectiveDateFormat, signConvention, selectedAccountObject?.account_type)
+
+  const editedRows = sourceRows.map(row => applyRowEdit(row, rowEdits[row.rowNumber], effectiveDateFormat))
+
+  // Serialized so the lookup below only re-runs when a row's rule input actually changes
+  const ruleLookupKey = step === 'preview' && selectedAccount && household
+    ? JSON.stringify({ householdId: household.id, inputs: getImportRuleInputs(editedRows, selectedAccount, cards) })
+    : ''
+
+  useEffect(() => {
+    if (!ruleLookupKey) return
+
+    const { householdId, inputs } = JSON.parse(ruleLookupKey)
+    let cancelled = false
+
+    evaluateRulesOnServer(householdId, inputs)
+      .then(results => {
+        const evaluations = new Map(results.map((result, i) => [getRuleInputKey(inputs[i]), result]))
+        if (!cancelled) setRuleData({ key: ruleLookupKey, evaluations })
+      })
+      .catch(err => {
+        console.error('[CSVImport] Rule evaluation failed:', err)
+        // The insert trigger still applies rules; they just won't show in the preview
+        if (!cancelled) setRuleData({ key: ruleLookupKey, evaluations: new Map() })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [ruleLookupKey])
+
+  const evaluatingRules = Boolean(ruleLookupKey) && ruleData.key !== ruleLookupKey
+
+  const hashedRows = finalizeImportRows(
+    editedRows,
+    selectedAccount,
+    statementFormat,
+    { evaluations: ruleData.evaluations, cards }
+  )
+
+  const lookupRange = getDuplicateLookupRange(hashedRows)
+  const importAccountIds = getImportAccountIds(hashedRows)
+
+  // One string so the lookup below only re-runs when the accounts, date range or a hash actually changes
+  const existingLookupKey = step === 'preview' && selectedAccount && lookupRange
+    ? [
+        importAccountIds.join(','),
+        lookupRange.fromDate,
+        lookupRange.toDate,
+        ...hashedRows.map(r => r.hash).filter(Boolean),
+      ].join('\n')
+    : ''
+
+  useEffect(() => {
+    if (!existingLookupKey) return
+
+    const [accountIds, fromDate, toDate, ...hashes] = existingLookupKey.split('\n')
+    let cancelled = false
+
+    Promise.all([
+      findExistingHashes(accountIds.split(','), hashes),
+      findTransactionsInRange(accountIds.split(','), fromDate, toDate),
+    ])
+      .then(([found, nearby]) => {
+        if (!cancelled) setExistingData({ key: existingLookupKey, hashes: found, nearby })
+      })
+      .catch(err => {
+        console.error('[CSVImport] Duplicate lookup failed:', err)
+        // The database still skips exact duplicates on insert; they just won't show in the preview
+        if (!cancelled) setExistingData({ key: existingLookupKey, hashes: new Set(), nearby: [] })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [existingLookupKey])
+
+  const checkingDuplicates = Boolean(existingLookupKey) && existingData.key !== existingLookupKey
+  const existing = existingData.key === existingLookupKey ? existingData : { hashes: new Set<string>(), nearby: [] }
+
+  const validatedRows: ValidatedImportRow[] = validateImportRows(
+    markPossibleDuplicates(hashedRows, existing.hashes, existing.nearby),
+    existing.hashes
+  )
+
+  const rejectedRows = validatedRows.filter(r => !isImportable(r.status) || excludedRows.has(r.rowNumber))
+  const importableCount = validatedRows.length - rejectedRows.length
+  const duplicateRowCount = validatedRows.filter(r => r.status === 'duplicate').length
+
+  const handleToggleExclude = (rowNumber: number) => {
+    const next = new Set(excludedRows)
+    if (next.has(rowNumber)) {
+      next.delete(rowNumber)
+    } else {
+      next.add(rowNumber)
+    }
+    setExcludedRows(next)
+  }
+
+  const handleEditRow = (rowNumber: number, edit: ImportRowEdit) => {
+    setRowEdits({ ...rowEdits, [rowNumber]: { ...rowEdits[rowNumber], ...edit } })
+  }
+
+  const handleDownloadRejected = () => {
+    const csv = createRejectedRowsCSV(rejectedRows.map(row => ({
+      source: row.source,
+      status: isImportable(row.status) ? 'excluded' as const : row.status,
+      issues: row.issues,
+    })))
+
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `rejected-${uploadedFile?.name.replace(/\.[^.]+$/, '') || 'import'}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const getCategoryLabel = (row: ValidatedImportRow): string | null => {
+    if (row.fileCategory) return row.fileCategory.replace(/:/g, ' → ')
+    const category = getCategoryById(row.categoryId)
+    return category ? getCategoryDisplayName(category) : null
+  }
+
+  // Rows split off to another account by a mapped card number
+  const getAccountLabel = (row: ValidatedImportRow): string | null => {
+    if (row.accountId === selectedAccount) return null
+    return accounts.find(a => a.id === row.accountId)?.name || null
+  }
+
+  // Category paths in the file (QIF) that don't exist in this household yet
+  const missingCategoryPaths = Array.from(new Set(statementRows.map(r => r.category).filter(Boolean) as string[]))
+    .filter(categoryPath => {
+      const path = splitCategoryPath(categoryPath)
+      return path && !findCategoryByPath(categories, path)
+    })
+
+  const accountSelect = (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Account <span className="text-red-500">*</span>
+      </label>
+      <select
+        value={selectedAccount}
+        onChange={(e) => handleAccountChange(e.target.value)}
+        disabled={importing}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">Choose an account...</option>
+        {accounts.map((account) => (
+          <option key={account.id} value={account.id}>
+            {account.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
 
   return (
     <div className="bg-white rounded-lg shadow p-6">
-      <h2 className="text-2xl font-bold mb-6">Import Transactions from CSV</h2>
+      <h2 className="text-2xl font-bold mb-6">Import Transactions</h2>
 
       {error && (
         <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
@@ -247,7 +630,7 @@ export default function CSVImport() {
       )}
 
       {/* Step 1: Upload */}
-      {step === 'upload' && (
+      {step === 'upload' && multiFiles.length === 0 && (
         <div className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -255,7 +638,7 @@ export default function CSVImport() {
             </label>
             <select
               value={selectedAccount}
-              onChange={(e) => setSelectedAccount(e.target.value)}
+              onChange={(e) => handleAccountChange(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="">Choose an account...</option>
@@ -267,34 +650,138 @@ export default function CSVImport() {
             </select>
           </div>
 
-          <div>
+          <div
+            onDragOver={(e) => {
+              e.preventDefault()
+              setDragActive(true)
+            }}
+            onDragLeave={() => setDragActive(false)}
+            onDrop={handleDrop}
+            className={`border-2 border-dashed rounded-lg p-6 ${dragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}`}
+          >
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Upload CSV File
+              Upload Statement Files
             </label>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
+              multiple
+              accept=".csv,.xlsx,.xls,.ofx,.qfx,.qif,.xml,.sta,.mt940,.940"
               onChange={handleFileUpload}
-              disabled={!selectedAccount}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
+            <p className="text-sm text-gray-500 mt-2">
+              Select an account first, then upload or drop your bank's CSV, Excel, OFX/QFX, QIF, CAMT.053 (XML) or MT940 export.
+              {profiles.length > 0 && ' CSV and Excel files matching a saved import profile pick their account automatically.'}
+            </p>
             <p className="text-sm text-gray-500 mt-1">
-              Select an account first, then upload your bank's CSV export
+              Drop several files at once to import them together; each is matched to an account by its
+              {' '}import profile, the account's file name pattern or its card number.
             </p>
           </div>
         </div>
       )}
 
+      {/* Several files: routed and previewed together */}
+      {step === 'upload' && multiFiles.length > 0 && (
+        <MultiFileImport files={multiFiles} onClose={handleReset} />
+      )}
+
       {/* Step 2: Map Columns */}
       {step === 'map' && (
         <div className="space-y-4">
           <div className="bg-blue-50 border border-blue-200 rounded-md p-4 mb-4">
             <p className="text-sm text-blue-900">
-              <strong>Map your CSV columns</strong> to the required fields. We've tried to auto-detect them.
+              <strong>Map your {statementFormat === 'xlsx' ? 'spreadsheet' : 'CSV'} columns</strong> to the required fields. We've tried to auto-detect them.
             </p>
           </div>
 
+          {accountSelect}
+
+          {statementFormat === 'xlsx' ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Sheet
+                </label>
+                <select
+                  value={fileOptions.sheetName || fileLayout.sheetNames[0] || ''}
+                  onChange={(e) => handleFileOptionsChange({ sheetName: e.target.value, headerRowOffset: 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {fileLayout.sheetNames.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Header Row
+                </label>
+                <select
+                  value={fileOptions.headerRowOffset}
+                  onChange={(e) => handleFileOptionsChange({ headerRowOffset: parseInt(e.target.value, 10) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {fileLayout.leadingLines.map((line, index) => (
+                    <option key={index} value={index}>
+                      Row {index + 1}: {line.filter(cell => cell.trim()).slice(0, 4).join(', ') || '(empty)'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Header Rows to Skip
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  value={fileOptions.headerRowOffset}
+                  onChange={(e) => handleFileOptionsChange({ headerRowOffset: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Delimiter
+                </label>
+                <select
+                  value={fileOptions.delimiter}
+                  onChange={(e) => handleFileOptionsChange({ delimiter: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {DELIMITERS.map((d) => (
+                    <option key={d.label} value={d.value}>
+                      {d.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Encoding
+                </label>
+                <select
+                  value={fileOptions.encoding}
+                  onChange={(e) => handleFileOptionsChange({ encoding: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {ENCODINGS.map((enc) => (
+                    <option key={enc.value} value={enc.value}>
+                      {enc.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Date Column <span className="text-red-500">*</span>
@@ -333,20 +820,72 @@ export default function CSVImport() {
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Amount Column <span className="text-red-500">*</span>
+              Amounts <span className="text-red-500">*</span>
             </label>
-            <select
-              value={columnMapping.amount}
-              onChange={(e) => setColumnMapping({ ...columnMapping, amount: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="">Select column...</option>
-              {headers.map((header) => (
-                <option key={header} value={header}>
-                  {header}
-                </option>
-              ))}
-            </select>
+            <div className="flex space-x-6 mb-2">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={columnMapping.amountMode === 'single'}
+                  onChange={() => setColumnMapping({ ...columnMapping, amountMode: 'single' })}
+                />
+                <span className="text-sm text-gray-700">One signed amount column</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={columnMapping.amountMode === 'split'}
+                  onChange={() => setColumnMapping({ ...columnMapping, amountMode: 'split' })}
+                />
+                <span className="text-sm text-gray-700">Separate debit and credit columns</span>
+              </label>
+            </div>
+            {columnMapping.amountMode === 'single' ? (
+              <select
+                value={columnMapping.amount}
+                onChange={(e) => setColumnMapping({ ...columnMapping, amount: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Select amount column...</option>
+                {headers.map((header) => (
+                  <option key={header} value={header}>
+                    {header}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <select
+                  value={columnMapping.debit}
+                  onChange={(e) => setColumnMapping({ ...columnMapping, debit: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Debit (money out) column...</option>
+                  {headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={columnMapping.credit}
+                  onChange={(e) => setColumnMapping({ ...columnMapping, credit: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Credit (money in) column...</option>
+                  {headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {columnMapping.amountMode === 'split' && (
+              <p className="text-sm text-gray-500 mt-1">
+                Debits are recorded as spending and credits as money in, using this account's type.
+              </p>
+            )}
           </div>
 
           <div>
@@ -370,6 +909,50 @@ export default function CSVImport() {
             </p>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Date Format
+              </label>
+              <select
+                value={dateFormat}
+                onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {DATE_FORMATS.map((f) => (
+                  <option key={f.value} value={f.value}>
+                    {f.value === 'auto' && columnMapping.date ? `${f.label} (looks like ${detectedDateFormat})` : f.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Amount Signs
+              </label>
+              <select
+                value={signConvention}
+                onChange={(e) => setSignConvention(e.target.value as SignConvention)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="as-is">Use amounts as they appear</option>
+                <option value="invert">Invert signs (negative ↔ positive)</option>
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={saveAsProfile}
+              onChange={(e) => setSaveAsProfile(e.target.checked)}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">
+              Save these settings as an import profile for this account (future files with the same columns import in one click)
+            </span>
+          </label>
+
           <div className="flex space-x-3 pt-4">
             <button
               onClick={handleMapColumns}
@@ -392,45 +975,103 @@ export default function CSVImport() {
         <div className="space-y-4">
           <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
             <p className="text-sm text-blue-900">
-              <strong>Preview:</strong> Here are the first 5 transactions. If they look correct, click Import.
+              <strong>Preview:</strong> Every row in the file is listed below with its status. If they look correct, click Import.
             </p>
           </div>
 
+          {matchedProfile && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-4 flex justify-between items-center">
+              <p className="text-sm text-green-900">
+                Recognized saved import profile <strong>{matchedProfile.name}</strong>
+                {' '}for <strong>{accounts.find(a => a.id === matchedProfile.account_id)?.name || 'Unknown account'}</strong>.
+              </p>
+              <button
+                onClick={() => setStep('map')}
+                disabled={importing}
+                className="text-sm text-green-800 hover:text-green-900 underline"
+              >
+                Adjust settings
+              </button>
+            </div>
+          )}
+
+          {accountSelect}
+
           <div className="text-sm text-gray-600 mb-2">
-            <strong>Total transactions:</strong> {csvData.length}
+            {checkingDuplicates ? (
+              'Checking for transactions already in this account...'
+            ) : evaluatingRules ? (
+              'Applying rules...'
+            ) : (
+              <>
+                <strong>{importableCount}</strong> of {validatedRows.length} rows will be imported.
+                {' '}Rows with errors or duplicates are skipped; use Fix to correct a row or untick it to leave it out.
+              </>
+            )}
           </div>
 
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200 border">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
-                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
-                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {previewData.map((row, idx) => (
-                  <tr key={idx}>
-                    <td className="px-4 py-2 text-sm">{row.date}</td>
-                    <td className="px-4 py-2 text-sm">{row.description}</td>
-                    <td className="px-4 py-2 text-sm text-right">${parseAmount(row.amount).toFixed(2)}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+          {missingCategoryPaths.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 space-y-2">
+              <p className="text-sm text-yellow-900">
+                <strong>{missingCategoryPaths.length} categor{missingCategoryPaths.length !== 1 ? 'ies' : 'y'}</strong> in this file
+                {' '}{missingCategoryPaths.length !== 1 ? "don't" : "doesn't"} exist yet: {missingCategoryPaths.slice(0, 10).join(', ')}
+                {missingCategoryPaths.length > 10 && ` and ${missingCategoryPaths.length - 10} more`}
+              </p>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={createMissingCategories}
+                  onChange={(e) => setCreateMissingCategories(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  disabled={importing}
+                />
+                <span className="text-sm text-yellow-900">
+                  Create missing categories (Parent:Child becomes a parent category with a subcategory)
+                </span>
+              </label>
+            </div>
+          )}
+
+          {importProgress && (
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-green-600 h-2 rounded-full transition-all"
+                style={{ width: `${importProgress.total > 0 ? (importProgress.done / importProgress.total) * 100 : 0}%` }}
+              />
+            </div>
+          )}
+
+          <ImportPreviewTable
+            rows={validatedRows}
+            excludedRows={excludedRows}
+            disabled={importing}
+            getCategoryLabel={getCategoryLabel}
+            getAccountLabel={getAccountLabel}
+            onToggleExclude={handleToggleExclude}
+            onEditRow={handleEditRow}
+          />
 
           <div className="flex space-x-3 pt-4">
             <button
               onClick={handleImport}
-              disabled={importing}
+              disabled={importing || checkingDuplicates || evaluatingRules || importableCount === 0}
               className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
             >
-              {importing ? 'Importing...' : `Import ${csvData.length} Transactions`}
+              {importing
+                ? importProgress ? `Importing ${importProgress.done} of ${importProgress.total}...` : 'Importing...'
+                : `Import ${importableCount} Transactions`}
             </button>
+            {rejectedRows.length > 0 && (
+              <button
+                onClick={handleDownloadRejected}
+                disabled={importing}
+                className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Download {rejectedRows.length} Rejected Row{rejectedRows.length !== 1 ? 's' : ''}
+              </button>
+            )}
             <button
-              onClick={() => setStep('map')}
+              onClick={() => statementRows.length > 0 ? handleReset() : setStep('map')}
               disabled={importing}
               className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
             >
@@ -456,17 +1097,41 @@ export default function CSVImport() {
             </p>
             {importResult.duplicates && importResult.duplicates > 0 && (
               <p className="text-green-800 text-sm mt-2">
-                Skipped {importResult.duplicates} duplicate transaction{importResult.duplicates !== 1 ? 's' : ''} (already in database).
+                Skipped {importResult.duplicates} duplicate transaction{importResult.duplicates !== 1 ? 's' : ''} (already imported or repeated in the file).
+              </p>
+            )}
+            {importResult.rejected > 0 && (
+              <p className="text-green-800 text-sm mt-2">
+                {importResult.rejected} row{importResult.rejected !== 1 ? 's were' : ' was'} not imported (errors or excluded).
               </p>
             )}
+            {importResult.categoryConflicts.length > 0 && (
+              <p className="text-yellow-800 text-sm mt-2">
+                Couldn't create {importResult.categoryConflicts.length} categor{importResult.categoryConflicts.length !== 1 ? 'ies' : 'y'}, so
+                {' '}those rows were imported without one: {importResult.categoryConflicts.join('; ')}
+              </p>
+            )}
+            <p className="text-green-800 text-sm mt-2">
+              Imported into the wrong account? Undo it from <Link to="/imports" className="underline">Import History</Link>.
+            </p>
           </div>
 
-          <button
-            onClick={handleReset}
-            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
-          >
-            Import More Transactions
-          </button>
+          <div className="flex space-x-3">
+            <button
+              onClick={handleReset}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Import More Transactions
+            </button>
+            {rejectedRows.length > 0 && (
+              <button
+                onClick={handleDownloadRejected}
+                className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Download Rejected Rows
+              </button>
+            )}
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,30 @@
+import type { CategoryPrediction } from '@/lib/categoryClassifier'
+
+interface CategoryPredictionsProps {
+  predictions: CategoryPrediction[]
+  getCategoryName: (categoryId: string) => string
+  onSelect: (categoryId: string) => void
+  disabled?: boolean
+}
+
+export default function CategoryPredictions({ predictions, getCategoryName, onSelect, disabled }: CategoryPredictionsProps) {
+  if (predictions.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {predictions.map((prediction) => (
+        <button
+          key={prediction.categoryId}
+          type="button"
+          onClick={() => onSelect(prediction.categoryId)}
+          disabled={disabled}
+          title="Predicted from how you've categorized similar transactions among your latest 1,000"
+          className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+        >
+          {getCategoryName(prediction.categoryId)}
+          <span className="ml-1 text-blue-500">{Math.round(prediction.confidence * 100)}%</span>
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+import { useState } from 'react'
+import {
+  IMPORT_STATUS_LABELS,
+  IMPORT_STATUS_STYLES,
+  IMPORT_STATUS_ORDER,
+  isImportable,
+  type ImportRowEdit,
+  type ImportRowStatus,
+  type ValidatedImportRow,
+} from '@/lib/importValidation'
+
+// Rendering thousands of rows makes the preview sluggish; filters narrow it down
+const MAX_VISIBLE_ROWS = 200
+
+interface ImportPreviewTableProps {
+  rows: ValidatedImportRow[]
+  excludedRows: Set<number>
+  disabled?: boolean
+  getCategoryLabel: (row: ValidatedImportRow) => string | null
+  getAccountLabel?: (row: ValidatedImportRow) => string | null // Shown when a row goes to another account
+  onToggleExclude: (rowNumber: number) => void
+  onEditRow?: (rowNumber: number, edit: ImportRowEdit) => void // Omit to hide the Fix action
+}
+
+export default function ImportPreviewTable({
+  rows,
+  excludedRows,
+  disabled,
+  getCategoryLabel,
+  getAccountLabel,
+  onToggleExclude,
+  onEditRow,
+}: ImportPreviewTableProps) {
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | 'all'>('all')
+  const [editingRow, setEditingRow] = useState<number | null>(null)
+  const [editValues, setEditValues] = useState({ date: '', description: '', amount: '' })
+
+  const statusCounts = IMPORT_STATUS_ORDER.map(status => ({
+    status,
+    count: rows.filter(r => r.status === status).length,
+  }))
+
+  const filteredRows = statusFilter === 'all' ? rows : rows.filter(r => r.status === statusFilter)
+  const visibleRows = filteredRows.slice(0, MAX_VISIBLE_ROWS)
+
+  const startEdit = (row: ValidatedImportRow) => {
+    setEditingRow(row.rowNumber)
+    setEditValues({
+      date: row.date || row.dateText,
+      description: row.description,
+      amount: row.amount !== null ? row.amount.toFixed(2) : row.amountText,
+    })
+  }
+
+  const saveEdit = () => {
+    if (editingRow === null || !onEditRow) return
+    onEditRow(editingRow, editValues)
+    setEditingRow(null)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setStatusFilter('all')}
+          className={`px-3 py-1 text-sm rounded-full border ${
+            statusFilter === 'all' ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          All ({rows.length})
+        </button>
+        {statusCounts.filter(s => s.count > 0).map(({ status, count }) => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-3 py-1 text-sm rounded-full border ${
+              statusFilter === status ? 'ring-2 ring-blue-500 border-transparent' : 'border-transparent'
+            } ${IMPORT_STATUS_STYLES[status]}`}
+          >
+            {IMPORT_STATUS_LABELS[status]} ({count})
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto border rounded-md">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0 z-10">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Import</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+              {onEditRow && (
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleRows.map((row) => {
+              const importable = isImportable(row.status)
+              const excluded = excludedRows.has(row.rowNumber)
+              const isEditing = editingRow === row.rowNumber
+
+              return (
+                <tr key={row.rowNumber} className={!importable || excluded ? 'bg-gray-50 text-gray-400' : ''}>
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={importable && !excluded}
+                      onChange={() => onToggleExclude(row.rowNumber)}
+                      disabled={disabled || !importable}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-sm">
+                    <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${IMPORT_STATUS_STYLES[row.status]}`}>
+                      {IMPORT_STATUS_LABELS[row.status]}
+                    </span>
+                    {row.issues.length > 0 && (
+                      <div className="text-xs text-gray-500 mt-1">{row.issues.join('; ')}</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-sm">{row.rowNumber}</td>
+                  {isEditing ? (
+                    <>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={editValues.date}
+                          onChange={(e) => setEditValues({ ...editValues, date: e.target.value })}
+                          className="w-28 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                          placeholder="YYYY-MM-DD"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={editValues.description}
+                          onChange={(e) => setEditValues({ ...editValues, description: e.target.value })}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-sm">{getCategoryLabel(row) || '—'}</td>
+                      <td className="px-3 py-2 text-right">
+                        <input
+                          type="text"
+                          value={editValues.amount}
+                          onChange={(e) => setEditValues({ ...editValues, amount: e.target.value })}
+                          className="w-24 px-2 py-1 text-sm text-right border border-gray-300 rounded-md"
+                          title="Final signed amount as it should be stored"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right text-sm whitespace-nowrap">
+                        <button onClick={saveEdit} className="text-blue-600 hover:text-blue-900 mr-3">
+                          Save
+                        </button>
+                        <button onClick={() => setEditingRow(null)} className="text-gray-600 hover:text-gray-900">
+                          Cancel
+                        </button>
+                      </td>
+                    </>
+                  ) : (
+                    <>
+                      <td className="px-3 py-2 text-sm whitespace-nowrap">{row.date || row.dateText || '—'}</td>
+                      <td className="px-3 py-2 text-sm">
+                        {row.description || '—'}
+                        {getAccountLabel?.(row) && (
+                          <div className="text-xs text-blue-700 mt-1">→ {getAccountLabel(row)}</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-sm">{getCategoryLabel(row) || '—'}</td>
+                      <td className="px-3 py-2 text-sm text-right whitespace-nowrap">
+                        {row.amount !== null ? `$${row.amount.toFixed(2)}` : row.amountText || '—'}
+                      </td>
+                      {onEditRow && (
+                        <td className="px-3 py-2 text-right text-sm">
+                          <button
+                            onClick={() => startEdit(row)}
+                            disabled={disabled}
+                            className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                          >
+                            Fix
+                          </button>
+                        </td>
+                      )}
+                    </>
+                  )}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {filteredRows.length > MAX_VISIBLE_ROWS && (
+        <p className="text-xs text-gray-500">
+          Showing the first {MAX_VISIBLE_ROWS} of {filteredRows.length} rows. Filter by status to see the rest.
+        </p>
+      )}
+    </div>
+  )
+}
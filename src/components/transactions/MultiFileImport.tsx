@@ -0,0 +1,590 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { useAccounts, type Account } from '@/hooks/useAccounts'
+import { useTransactions, findExistingHashes, findTransactionsInRange } from '@/hooks/useTransactions'
+import { useHousehold } from '@/hooks/useHousehold'
+import { evaluateRulesOnServer } from '@/hooks/useRules'
+import { useCategories } from '@/hooks/useCategories'
+import { useImportProfiles, type ImportProfile } from '@/hooks/useImportProfiles'
+import { useImportBatches } from '@/hooks/useImportBatches'
+import { useAccountCards, type AccountCard } from '@/hooks/useAccountCards'
+import ImportPreviewTable from './ImportPreviewTable'
+import { extractVendor } from '@/lib/vendorExtraction'
+import { detectStatementFormat, detectFileFormat, isTabularFormat, type StatementFormat, type StatementTransaction } from '@/lib/statementImport'
+import { routeFileToAccount, ROUTE_REASON_LABELS, type FileRoute } from '@/lib/importRouting'
+import { splitCategoryPath, findCategoryByPath } from '@/lib/categoryPaths'
+import type { DuplicateCandidate } from '@/lib/duplicateDetection'
+import {
+  validateImportRows,
+  isImportable,
+  IMPORT_STATUS_LABELS,
+  IMPORT_STATUS_STYLES,
+  IMPORT_STATUS_ORDER,
+  type ImportRow,
+  type ValidatedImportRow,
+} from '@/lib/importValidation'
+import {
+  parseTableFile,
+  parseStatementFile,
+  findMatchingProfile,
+  getAccountSignConvention,
+  getEffectiveDateFormat,
+  isMappingComplete,
+  buildTableRows,
+  buildStatementRows,
+  finalizeImportRows,
+  getImportRuleInputs,
+  getRuleInputKey,
+  getDuplicateLookupRange,
+  getImportAccountIds,
+  markPossibleDuplicates,
+  type ImportRuleEvaluations,
+  type SourceImportRow,
+} from '@/lib/importPipeline'
+import {
+  detectColumnMapping,
+  DEFAULT_FILE_OPTIONS,
+  EMPTY_COLUMN_MAPPING,
+  type ColumnMapping,
+  type DateFormat,
+  type ParsedRow,
+  type SignConvention,
+} from '@/lib/csvParsing'
+
+interface PreparedFile {
+  file: File
+  format: StatementFormat
+  error: string | null
+  accountId: string
+  route: FileRoute | null
+  tableRows: ParsedRow[]
+  mapping: ColumnMapping
+  dateFormat: DateFormat
+  profile: ImportProfile | null
+  statementRows: StatementTransaction[]
+  excludedRows: Set<number>
+  // What's already in the routed account and the rule results for it; null until looked up
+  existing: { accountId: string; hashes: Set<string>; nearby: DuplicateCandidate[]; evaluations: ImportRuleEvaluations } | null
+}
+
+interface FileImportResult {
+  fileName: string
+  accountName: string
+  count: number
+  duplicates: number
+  rejected: number
+  error: string | null
+}
+
+interface MultiFileImportProps {
+  files: File[]
+  onClose: () => void
+}
+
+// Sign convention for a table file: the matched profile's, otherwise the account's default
+function getSignConvention(item: PreparedFile, account: Account | undefined): SignConvention {
+  return item.profile ? item.profile.sign_convention : getAccountSignConvention(account)
+}
+
+function buildSourceRows(item: PreparedFile, accountId: string, accounts: Account[]): SourceImportRow[] {
+  const account = accounts.find(a => a.id === accountId)
+
+  return isTabularFormat(item.format)
+    ? buildTableRows(
+        item.tableRows,
+        item.mapping,
+        getEffectiveDateFormat(item.tableRows, item.mapping, item.dateFormat),
+        getSignConvention(item, account),
+        account?.account_type
+      )
+    : buildStatementRows(item.statementRows, getAccountSignConvention(account))
+}
+
+function buildFileRows(
+  item: PreparedFile,
+  accountId: string,
+  accounts: Account[],
+  evaluations: ImportRuleEvaluations,
+  cards: AccountCard[]
+): ImportRow[] {
+  return finalizeImportRows(buildSourceRows(item, accountId, accounts), accountId, item.format, { evaluations, cards })
+}
+
+async function lookupDuplicates(rows: ImportRow[]): Promise<{ hashes: Set<string>; nearby: DuplicateCandidate[] }> {
+  const accountIds = getImportAccountIds(rows)
+  const range = getDuplicateLookupRange(rows)
+  if (!range) return { hashes: new Set(), nearby: [] }
+
+  try {
+    const [hashes, nearby] = await Promise.all([
+      findExistingHashes(accountIds, rows.map(r => r.hash).filter(Boolean) as string[]),
+      findTransactionsInRange(accountIds, range.fromDate, range.toDate),
+    ])
+    return { hashes, nearby }
+  } catch (err) {
+    console.error('[MultiFileImport] Duplicate lookup failed:', err)
+    // The database still skips exact duplicates on insert; they just won't show in the preview
+    return { hashes: new Set(), nearby: [] }
+  }
+}
+
+async function lookupRuleResults(
+  sourceRows: SourceImportRow[],
+  accountId: string,
+  cards: AccountCard[],
+  householdId: string
+): Promise<ImportRuleEvaluations> {
+  const inputs = getImportRuleInputs(sourceRows, accountId, cards)
+
+  try {
+    const results = await evaluateRulesOnServer(householdId, inputs)
+    return new Map(results.map((result, i) => [getRuleInputKey(inputs[i]), result]))
+  } catch (err) {
+    console.error('[MultiFileImport] Rule evaluation failed:', err)
+    // The insert trigger still applies rules; they just won't show in the preview
+    return new Map()
+  }
+}
+
+async function lookupExisting(
+  item: PreparedFile,
+  accountId: string,
+  accounts: Account[],
+  cards: AccountCard[],
+  householdId: string
+): Promise<PreparedFile['existing']> {
+  const sourceRows = buildSourceRows(item, accountId, accounts)
+  // Rules don't affect hashes or dates, so duplicates are looked up without them
+  const rows = finalizeImportRows(sourceRows, accountId, item.format, { evaluations: new Map(), cards })
+
+  const [duplicates, evaluations] = await Promise.all([
+    lookupDuplicates(rows),
+    lookupRuleResults(sourceRows, accountId, cards, householdId),
+  ])
+  return { accountId, ...duplicates, evaluations }
+}
+
+async function prepareFile(
+  file: File,
+  accounts: Account[],
+  profiles: ImportProfile[],
+  cards: AccountCard[],
+  householdId: string
+): Promise<PreparedFile> {
+  const item: PreparedFile = {
+    file,
+    format: detectStatementFormat(file.name),
+    error: null,
+    accountId: '',
+    route: null,
+    tableRows: [],
+    mapping: EMPTY_COLUMN_MAPPING,
+    dateFormat: 'auto',
+    profile: null,
+    statementRows: [],
+    excludedRows: new Set(),
+    existing: null,
+  }
+
+  try {
+    item.format = await detectFileFormat(file)
+  } catch (err) {
+    item.error = err instanceof Error ? err.message : 'Unsupported file'
+    return item
+  }
+
+  try {
+    if (isTabularFormat(item.format)) {
+      const match = await findMatchingProfile(file, profiles)
+      const parsed = match ? match.parsed : await parseTableFile(file, DEFAULT_FILE_OPTIONS)
+
+      item.tableRows = parsed.rows
+      item.profile = match?.profile || null
+      item.mapping = match
+        ? { ...EMPTY_COLUMN_MAPPING, ...match.profile.column_mapping }
+        : detectColumnMapping(parsed.headers)
+      item.dateFormat = match?.profile.date_format || 'auto'
+
+      if (parsed.rows.length === 0) {
+        item.error = 'The file is empty'
+      } else if (!isMappingComplete(item.mapping)) {
+        item.error = "The columns couldn't be detected. Import this file on its own to map them."
+      }
+    } else {
+      item.statementRows = await parseStatementFile(file, item.format)
+      if (item.statementRows.length === 0) {
+        item.error = 'No transactions found in the file'
+      }
+    }
+  } catch (err) {
+    item.error = `Failed to parse: ${err instanceof Error ? err.message : 'Unknown error'}`
+  }
+
+  if (item.error) return item
+
+  item.route = routeFileToAccount(file.name, accounts, {
+    profileAccountId: item.profile?.account_id,
+    cardNumbers: item.mapping.cardNumber ? item.tableRows.map(row => row[item.mapping.cardNumber]) : undefined,
+    cards,
+  })
+  item.accountId = item.route?.accountId || ''
+
+  if (item.accountId) {
+    item.existing = await lookupExisting(item, item.accountId, accounts, cards, householdId)
+  }
+
+  return item
+}
+
+export default function MultiFileImport({ files, onClose }: MultiFileImportProps) {
+  const { accounts, loading: accountsLoading } = useAccounts()
+  const { importTransactions } = useTransactions()
+  const { household } = useHousehold()
+  const { categories, getCategoryById, getCategoryDisplayName } = useCategories()
+  const { profiles, loading: profilesLoading } = useImportProfiles()
+  const { cards, loading: cardsLoading } = useAccountCards()
+  const { createBatch, finishBatch, discardBatch } = useImportBatches()
+
+  const [prepared, setPrepared] = useState<PreparedFile[] | null>(null)
+  const [expandedFile, setExpandedFile] = useState<number | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [progress, setProgress] = useState<{ fileIndex: number; done: number; total: number } | null>(null)
+  const [results, setResults] = useState<FileImportResult[] | null>(null)
+
+  // Profiles, accounts and cards drive routing, so wait for them before reading the files
+  useEffect(() => {
+    if (!household || accountsLoading || profilesLoading || cardsLoading) return
+
+    let cancelled = false
+
+    const prepareAll = async () => {
+      const items: PreparedFile[] = []
+      for (const file of files) {
+        items.push(await prepareFile(file, accounts, profiles, cards, household.id))
+      }
+      if (!cancelled) setPrepared(items)
+    }
+
+    prepareAll()
+
+    return () => {
+      cancelled = true
+    }
+  }, [files, household, accounts, profiles, cards, accountsLoading, profilesLoading, cardsLoading])
+
+  const updateFile = (index: number, updates: Partial<PreparedFile>) => {
+    setPrepared(prev => prev && prev.map((item, i) => i === index ? { ...item, ...updates } : item))
+  }
+
+  const handleAccountChange = async (index: number, accountId: string) => {
+    if (!prepared) return
+    const item = prepared[index]
+
+    // Hashes include the account, so existing rows have to be looked up again
+    updateFile(index, { accountId, route: null, existing: null, excludedRows: new Set() })
+    if (!accountId || !household) return
+
+    const existing = await lookupExisting(item, accountId, accounts, cards, household.id)
+    setPrepared(prev => prev && prev.map((p, i) =>
+      i === index && p.accountId === accountId ? { ...p, existing } : p
+    ))
+  }
+
+  const handleToggleExclude = (index: number, rowNumber: number) => {
+    if (!prepared) return
+    const next = new Set(prepared[index].excludedRows)
+    if (next.has(rowNumber)) {
+      next.delete(rowNumber)
+    } else {
+      next.add(rowNumber)
+    }
+    updateFile(index, { excludedRows: next })
+  }
+
+  const getValidatedRows = (item: PreparedFile): ValidatedImportRow[] => {
+    if (item.error || !item.accountId) return []
+
+    const existing = item.existing?.accountId === item.accountId ? item.existing : null
+    const rows = buildFileRows(item, item.accountId, accounts, existing?.evaluations || new Map(), cards)
+
+    return validateImportRows(
+      existing ? markPossibleDuplicates(rows, existing.hashes, existing.nearby) : rows,
+      existing?.hashes
+    )
+  }
+
+  // Only categories that already exist are used; import a QIF on its own to create missing ones
+  const getFileCategoryId = (path: string | null | undefined): string | null => {
+    const parsed = path ? splitCategoryPath(path) : null
+    return parsed ? findCategoryByPath(categories, parsed)?.id || null : null
+  }
+
+  const getCategoryLabel = (row: ValidatedImportRow): string | null => {
+    if (row.fileCategory) return row.fileCategory.replace(/:/g, ' → ')
+    const category = getCategoryById(row.categoryId)
+    return category ? getCategoryDisplayName(category) : null
+  }
+
+  const fileViews = (prepared || []).map(item => {
+    const rows = getValidatedRows(item)
+    const importable = rows.filter(r => isImportable(r.status) && !item.excludedRows.has(r.rowNumber))
+    return {
+      item,
+      rows,
+      importable,
+      checking: Boolean(item.accountId) && !item.error && item.existing?.accountId !== item.accountId,
+    }
+  })
+
+  const readyFiles = fileViews.filter(v => v.item.accountId && !v.item.error && v.importable.length > 0)
+  const totalImportable = readyFiles.reduce((sum, v) => sum + v.importable.length, 0)
+  const stillChecking = fileViews.some(v => v.checking)
+
+  const handleImportAll = async () => {
+    setImporting(true)
+    const fileResults: FileImportResult[] = []
+
+    for (const [fileIndex, view] of readyFiles.entries()) {
+      const { item, rows, importable } = view
+      const accountName = accounts.find(a => a.id === item.accountId)?.name || 'Unknown account'
+      const duplicateRowCount = rows.filter(r => r.status === 'duplicate').length
+      const rejectedCount = rows.length - importable.length - duplicateRowCount
+
+      const { error: batchError, data: batch } = await createBatch({
+        account_id: item.accountId,
+        file_name: item.file.name,
+        file_format: item.format,
+        row_count: rows.length,
+        rejected_count: rejectedCount,
+      })
+
+      if (batchError || !batch) {
+        fileResults.push({ fileName: item.file.name, accountName, count: 0, duplicates: 0, rejected: 0, error: batchError || 'Failed to record import' })
+        continue
+      }
+
+      const { error, count, duplicates } = await importTransactions(
+        item.accountId,
+        importable.map(row => ({
+          date: row.date as string,
+          description: row.description,
+          amount: row.amount as number,
+          vendor: row.ruleActions.vendor || extractVendor(row.description),
+          transaction_hash: row.hash || undefined,
+          category_id: getFileCategoryId(row.fileCategory) || row.categoryId,
+          member_id: row.memberId,
+          account_id: row.accountId,
+          value_date: row.valueDate,
+          counterparty: row.counterparty,
+          remittance_info: row.remittanceInfo,
+          bank_reference: row.externalId,
+          card_number: row.cardNumber,
+          tags: row.ruleActions.tags,
+          notes: row.ruleActions.note,
+          is_transfer: row.ruleActions.isTransfer,
+          is_reimbursable: row.ruleActions.isReimbursable,
+        })),
+        batch.id,
+        (done, total) => setProgress({ fileIndex, done, total })
+      )
+
+      if (error && count === 0) {
+        await discardBatch(batch.id)
+      } else {
+        await finishBatch(batch.id, { imported_count: count, duplicate_count: duplicateRowCount + (duplicates || 0) })
+      }
+
+      fileResults.push({
+        fileName: item.file.name,
+        accountName,
+        count,
+        duplicates: duplicateRowCount + (duplicates || 0),
+        rejected: rejectedCount,
+        error,
+      })
+    }
+
+    setProgress(null)
+    setImporting(false)
+    setResults(fileResults)
+  }
+
+  if (results) {
+    const totals = results.reduce(
+      (sum, r) => ({ count: sum.count + r.count, duplicates: sum.duplicates + r.duplicates, rejected: sum.rejected + r.rejected }),
+      { count: 0, duplicates: 0, rejected: 0 }
+    )
+
+    return (
+      <div className="space-y-4">
+        <div className={`border rounded-md p-4 ${results.some(r => r.error) ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'}`}>
+          <p className="text-gray-900">
+            Imported <strong>{totals.count}</strong> new transaction{totals.count !== 1 ? 's' : ''} from {results.length} file{results.length !== 1 ? 's' : ''}.
+            {' '}Skipped {totals.duplicates} duplicate{totals.duplicates !== 1 ? 's' : ''} and {totals.rejected} rejected or excluded row{totals.rejected !== 1 ? 's' : ''}.
+          </p>
+          <p className="text-sm text-gray-700 mt-2">
+            Each file can be undone separately from <Link to="/imports" className="underline">Import History</Link>.
+          </p>
+        </div>
+
+        <div className="overflow-x-auto border rounded-md">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">File</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Account</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Imported</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Duplicates</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rejected</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {results.map((result) => (
+                <tr key={result.fileName}>
+                  <td className="px-4 py-2 text-sm">
+                    {result.fileName}
+                    {result.error && <div className="text-xs text-red-600">{result.error}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-sm">{result.accountName}</td>
+                  <td className="px-4 py-2 text-sm text-right">{result.count}</td>
+                  <td className="px-4 py-2 text-sm text-right">{result.duplicates}</td>
+                  <td className="px-4 py-2 text-sm text-right">{result.rejected}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Import More Transactions
+        </button>
+      </div>
+    )
+  }
+
+  if (!prepared) {
+    return <div className="text-sm text-gray-600">Reading {files.length} files...</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+        <p className="text-sm text-blue-900">
+          <strong>{files.length} files</strong> ready to import. Each file was matched to an account by saved profile,
+          {' '}file name pattern or card number where possible; check the accounts before importing.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {fileViews.map(({ item, rows, importable, checking }, index) => (
+          <div
+            key={`${item.file.name}-${index}`}
+            className={`border rounded-lg p-4 space-y-3 ${expandedFile === index ? 'md:col-span-2' : ''}`}
+          >
+            <div className="flex justify-between items-start gap-2">
+              <div className="font-medium text-gray-900 break-all">{item.file.name}</div>
+              <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700 uppercase">
+                {item.format}
+              </span>
+            </div>
+
+            {item.error ? (
+              <p className="text-sm text-red-600">{item.error}</p>
+            ) : (
+              <>
+                <div>
+                  <select
+                    value={item.accountId}
+                    onChange={(e) => handleAccountChange(index, e.target.value)}
+                    disabled={importing}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Choose an account...</option>
+                    {accounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {item.route
+                      ? `Matched by ${ROUTE_REASON_LABELS[item.route.reason].toLowerCase()}`
+                      : item.accountId ? 'Chosen manually' : 'No matching account found; this file is skipped until you choose one'}
+                  </p>
+                </div>
+
+                {item.accountId && (
+                  checking ? (
+                    <p className="text-sm text-gray-600">Checking for transactions already in this account...</p>
+                  ) : (
+                    <>
+                      <div className="text-sm text-gray-700">
+                        <strong>{importable.length}</strong> of {rows.length} rows will be imported
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {IMPORT_STATUS_ORDER.map(status => ({ status, count: rows.filter(r => r.status === status).length }))
+                          .filter(({ count }) => count > 0)
+                          .map(({ status, count }) => (
+                            <span key={status} className={`px-2 py-0.5 text-xs font-semibold rounded-full ${IMPORT_STATUS_STYLES[status]}`}>
+                              {IMPORT_STATUS_LABELS[status]} {count}
+                            </span>
+                          ))}
+                      </div>
+                      <button
+                        onClick={() => setExpandedFile(expandedFile === index ? null : index)}
+                        className="text-sm text-blue-600 hover:text-blue-900"
+                      >
+                        {expandedFile === index ? 'Hide rows' : 'Show rows'}
+                      </button>
+                      {expandedFile === index && (
+                        <ImportPreviewTable
+                          rows={rows}
+                          excludedRows={item.excludedRows}
+                          disabled={importing}
+                          getCategoryLabel={getCategoryLabel}
+                          getAccountLabel={(row) => row.accountId === item.accountId ? null : accounts.find(a => a.id === row.accountId)?.name || null}
+                          onToggleExclude={(rowNumber) => handleToggleExclude(index, rowNumber)}
+                        />
+                      )}
+                    </>
+                  )
+                )}
+              </>
+            )}
+
+            {importing && progress && readyFiles[progress.fileIndex]?.item === item && (
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-green-600 h-2 rounded-full transition-all"
+                  style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex space-x-3 pt-4">
+        <button
+          onClick={handleImportAll}
+          disabled={importing || stillChecking || totalImportable === 0}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          {importing && progress
+            ? `Importing file ${progress.fileIndex + 1} of ${readyFiles.length}...`
+            : `Import ${totalImportable} Transactions from ${readyFiles.length} File${readyFiles.length !== 1 ? 's' : ''}`}
+        </button>
+        <button
+          onClick={onClose}
+          disabled={importing}
+          className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
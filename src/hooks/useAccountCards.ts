@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useHousehold } from './useHousehold'
+
+export interface AccountCard {
+  id: string
+  household_id: string
+  account_id: string
+  member_id: string | null
+  card_suffix: string // Last four digits as they appear in the statement's card number column
+  created_at: string
+  updated_at: string
+}
+
+export function useAccountCards() {
+  const { household } = useHousehold()
+  const [cards, setCards] = useState<AccountCard[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchCards = async () => {
+      if (!household) {
+        setLoading(false)
+        return
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('account_cards')
+          .select('*')
+          .eq('household_id', household.id)
+          .order('card_suffix', { ascending: true })
+
+        if (error) throw error
+        setCards(data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch cards')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCards()
+  }, [household])
+
+  const addCard = async (accountId: string, cardSuffix: string, memberId: string | null) => {
+    if (!household) return { error: 'No household found' }
+
+    try {
+      const { data, error } = await supabase
+        .from('account_cards')
+        .insert({
+          household_id: household.id,
+          account_id: accountId,
+          member_id: memberId,
+          card_suffix: cardSuffix,
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      setCards([...cards, data])
+      return { error: null }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to add card' }
+    }
+  }
+
+  const deleteCard = async (id: string) => {
+    try {
+      const { error } = await supabase.from('account_cards').delete().eq('id', id)
+
+      if (error) throw error
+      setCards(cards.filter((c) => c.id !== id))
+      return { error: null }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to delete card' }
+    }
+  }
+
+  return {
+    cards,
+    loading,
+    error,
+    addCard,
+    deleteCard,
+  }
+}
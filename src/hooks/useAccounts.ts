@@ -7,6 +7,8 @@ export interface Account {
   household_id: string
   name: string
   account_type: string | null
+  invert_amounts: boolean // Flip amount signs on import (e.g. cards exporting purchases as negatives)
+  import_file_pattern: string | null // Glob matched against dropped file names, e.g. "*chase*1234*"
   created_at: string
   updated_at: string
 }
@@ -63,13 +65,24 @@ export function useAccounts() {
     }
   }
 
-  const addAccount = async (name: string, accountType: string | null) => {
+  const addAccount = async (
+    name: string,
+    accountType: string | null,
+    invertAmounts: boolean = false,
+    importFilePattern: string | null = null
+  ) => {
     if (!household) return { error: 'No household found' }
 
     try {
       const { data, error } = await supabase
         .from('accounts')
-        .insert({ household_id: household.id, name, account_type: accountType })
+        .insert({
+          household_id: household.id,
+          name,
+          account_type: accountType,
+          invert_amounts: invertAmounts,
+          import_file_pattern: importFilePattern,
+        })
         .select()
         .single()
 
@@ -81,11 +94,17 @@ export function useAccounts() {
     }
   }
 
-  const updateAccount = async (id: string, name: string, accountType: string | null) => {
+  const updateAccount = async (
+    id: string,
+    name: string,
+    accountType: string | null,
+    invertAmounts: boolean = false,
+    importFilePattern: string | null = null
+  ) => {
     try {
       const { data, error } = await supabase
         .from('accounts')
-        .update({ name, account_type: accountType })
+        .update({ name, account_type: accountType, invert_amounts: invertAmounts, import_file_pattern: importFilePattern })
         .eq('id', id)
         .select()
         .single()
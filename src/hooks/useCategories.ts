@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useHousehold } from './useHousehold'
+import { findCategoryByPath, findCategoryNameConflict, type CategoryPath } from '@/lib/categoryPaths'
 
 export interface Category {
   id: string
@@ -95,6 +96,42 @@ export function useCategories() {
     }
   }
 
+  /**
+   * Finds or creates the categories along a path, e.g. for a file's "Auto:Fuel".
+   * known is the caller's working list, so paths sharing a parent create it once;
+   * created categories are added to it. Fails when a name is already used under
+   * another parent instead of attaching the category to the wrong one.
+   */
+  const createCategoryPath = async (
+    path: CategoryPath,
+    known: Category[]
+  ): Promise<{ error: string | null; data: Category | null }> => {
+    const findOrCreate = async (name: string, parent: Category | null) => {
+      const existing = findCategoryByPath(known, parent ? { parent: parent.name, child: name } : { parent: name, child: null })
+      if (existing) return { error: null, data: existing }
+
+      const conflict = findCategoryNameConflict(known, name, parent?.id || null)
+      if (conflict) {
+        const place = conflict.parent_category_id
+          ? `under ${known.find(c => c.id === conflict.parent_category_id)?.name || 'another category'}`
+          : 'as a top-level category'
+        return { error: `"${conflict.name}" already exists ${place}`, data: null }
+      }
+
+      const result = await addCategory(name, parent?.id || null)
+      const created = 'data' in result ? result.data as Category : null
+      if (result.error || !created) return { error: result.error || 'Failed to add category', data: null }
+
+      known.push(created)
+      return { error: null, data: created }
+    }
+
+    const parent = await findOrCreate(path.parent, null)
+    if (!parent.data || !path.child) return parent
+
+    return findOrCreate(path.child, parent.data)
+  }
+
   const updateCategory = async (id: string, name: string, parentCategoryId?: string | null) => {
     try {
       const updates: { name: string; parent_category_id?: string | null } = { name }
@@ -185,6 +222,7 @@ export function useCategories() {
     loading,
     error,
     addCategory,
+    createCategoryPath,
     updateCategory,
     deleteCategory,
     refetch: refetchCategories,
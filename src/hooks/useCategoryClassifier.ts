@@ -0,0 +1,25 @@
+import { useState } from 'react'
+import type { TransactionWithDetails } from './useTransactions'
+import { createClassifier, syncClassifier, type CategoryClassifier } from '@/lib/categoryClassifier'
+
+/**
+ * A category classifier trained on the given transactions. Whenever the list
+ * changes (e.g. a transaction gets categorized) only the changes are retrained.
+ * Pages pass the list useTransactions loads, so it learns from the newest 1,000
+ * transactions only; older categorizations don't count.
+ */
+export function useCategoryClassifier(transactions: TransactionWithDetails[]): CategoryClassifier {
+  const [trained, setTrained] = useState(() => ({
+    transactions,
+    classifier: syncClassifier(createClassifier(), transactions),
+  }))
+
+  // Updated during render rather than in an effect, so predictions never lag a render behind
+  if (trained.transactions !== transactions) {
+    const next = { transactions, classifier: syncClassifier(trained.classifier, transactions) }
+    setTrained(next)
+    return next.classifier
+  }
+
+  return trained.classifier
+}
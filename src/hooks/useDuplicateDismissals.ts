@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useHousehold } from './useHousehold'
+import { createPairKey } from '@/lib/duplicateDetection'
+
+export interface DuplicateDismissal {
+  id: string
+  household_id: string
+  transaction_id_a: string
+  transaction_id_b: string
+  created_at: string
+}
+
+export function useDuplicateDismissals() {
+  const { household } = useHousehold()
+  const [dismissals, setDismissals] = useState<DuplicateDismissal[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchDismissals = async () => {
+      if (!household) {
+        setLoading(false)
+        return
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('duplicate_dismissals')
+          .select('*')
+          .eq('household_id', household.id)
+
+        if (error) throw error
+        setDismissals(data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch dismissed duplicates')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchDismissals()
+  }, [household])
+
+  // Marks a pair as "not a duplicate" so it stops being flagged
+  const dismissPair = async (transactionIdA: string, transactionIdB: string) => {
+    if (!household) return { error: 'No household found' }
+
+    // Stored in key order so the unique constraint catches the pair either way round
+    const [first, second] = createPairKey(transactionIdA, transactionIdB).split('|')
+
+    try {
+      const { data, error } = await supabase
+        .from('duplicate_dismissals')
+        .insert({ household_id: household.id, transaction_id_a: first, transaction_id_b: second })
+        .select()
+        .single()
+
+      if (error) throw error
+      setDismissals([...dismissals, data])
+      return { error: null }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to dismiss duplicate' }
+    }
+  }
+
+  return {
+    dismissals,
+    loading,
+    error,
+    dismissPair,
+  }
+}
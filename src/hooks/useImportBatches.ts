@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useHousehold } from './useHousehold'
+import { useAuth } from '@/contexts/AuthContext'
+import type { StatementFormat } from '@/lib/statementImport'
+
+export interface ImportBatch {
+  id: string
+  household_id: string
+  account_id: string
+  file_name: string
+  file_format: StatementFormat
+  row_count: number
+  imported_count: number
+  duplicate_count: number
+  rejected_count: number
+  imported_by: string | null
+  imported_by_email: string | null
+  rolled_back_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ImportBatchWithAccount extends ImportBatch {
+  account?: { id: string; name: string }
+}
+
+export function useImportBatches() {
+  const { household } = useHousehold()
+  const { user } = useAuth()
+  const [batches, setBatches] = useState<ImportBatchWithAccount[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchBatches = async () => {
+      if (!household) {
+        setLoading(false)
+        return
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('import_batches')
+          .select('*, account:accounts(id, name)')
+          .eq('household_id', household.id)
+          .order('created_at', { ascending: false })
+
+        if (error) throw error
+        setBatches(data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch import history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBatches()
+  }, [household])
+
+  // Recorded before the rows are inserted so every transaction can point at it
+  const createBatch = async (batch: {
+    account_id: string
+    file_name: string
+    file_format: StatementFormat
+    row_count: number
+    rejected_count: number
+  }) => {
+    if (!household) return { error: 'No household found' }
+
+    try {
+      const { data, error } = await supabase
+        .from('import_batches')
+        .insert({
+          ...batch,
+          household_id: household.id,
+          imported_by: user?.id || null,
+          imported_by_email: user?.email || null,
+        })
+        .select('*, account:accounts(id, name)')
+        .single()
+
+      if (error) throw error
+      setBatches(prev => [data, ...prev])
+      return { error: null, data: data as ImportBatchWithAccount }
+    } catch (err) {
+      console.error('[useImportBatches] Create failed:', err)
+      return { error: err instanceof Error ? err.message : 'Failed to record import' }
+    }
+  }
+
+  const finishBatch = async (id: string, counts: { imported_count: number; duplicate_count: number }) => {
+    try {
+      const { error } = await supabase
+        .from('import_batches')
+        .update(counts)
+        .eq('id', id)
+
+      if (error) throw error
+      setBatches(prev => prev.map(b => b.id === id ? { ...b, ...counts } : b))
+      return { error: null }
+    } catch (err) {
+      console.error('[useImportBatches] Update failed:', err)
+      return { error: err instanceof Error ? err.message : 'Failed to update import' }
+    }
+  }
+
+  // Used when the insert itself failed, so history doesn't list an import that never happened
+  const discardBatch = async (id: string) => {
+    const { error } = await supabase.from('import_batches').delete().eq('id', id)
+    if (error) {
+      console.error('[useImportBatches] Discard failed:', error)
+      return
+    }
+    setBatches(prev => prev.filter(b => b.id !== id))
+  }
+
+  /**
+   * Deletes every transaction created by the batch. The batch itself is kept
+   * (marked as rolled back) so the history still shows what happened. Both happen
+   * in one database call, so neither can be left done without the other.
+   */
+  const rollbackBatch = async (id: string) => {
+    try {
+      const { data: count, error } = await supabase.rpc('rollback_import_batch', { p_batch_id: id })
+
+      if (error) throw error
+      const rolledBackAt = new Date().toISOString()
+      setBatches(prev => prev.map(b => b.id === id ? { ...b, rolled_back_at: rolledBackAt } : b))
+      return { error: null, count: (count as number) || 0 }
+    } catch (err) {
+      console.error('[useImportBatches] Rollback failed:', err)
+      return { error: err instanceof Error ? err.message : 'Failed to undo import', count: 0 }
+    }
+  }
+
+  return {
+    batches,
+    loading,
+    error,
+    createBatch,
+    finishBatch,
+    discardBatch,
+    rollbackBatch,
+  }
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useHousehold } from './useHousehold'
+import type { ColumnMapping, DateFormat, SignConvention } from '@/lib/csvParsing'
+
+export interface ImportProfile {
+  id: string
+  household_id: string
+  account_id: string
+  name: string
+  header_signature: string
+  column_mapping: ColumnMapping
+  date_format: DateFormat
+  sign_convention: SignConvention
+  header_row_offset: number
+  delimiter: string
+  encoding: string
+  sheet_name: string
+  created_at: string
+  updated_at: string
+}
+
+export type ImportProfileInput = Omit<ImportProfile, 'id' | 'household_id' | 'created_at' | 'updated_at'>
+
+export function useImportProfiles() {
+  const { household } = useHousehold()
+  const [profiles, setProfiles] = useState<ImportProfile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      if (!household) {
+        setLoading(false)
+        return
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('import_profiles')
+          .select('*')
+          .eq('household_id', household.id)
+          .order('updated_at', { ascending: false })
+
+        if (error) throw error
+        setProfiles(data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch import profiles')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchProfiles()
+  }, [household])
+
+  // Creates or replaces the profile for this account + header signature
+  const saveProfile = async (profile: ImportProfileInput) => {
+    if (!household) return { error: 'No household found' }
+
+    try {
+      const { data, error } = await supabase
+        .from('import_profiles')
+        .upsert(
+          { ...profile, household_id: household.id, updated_at: new Date().toISOString() },
+          { onConflict: 'account_id,header_signature' }
+        )
+        .select()
+        .single()
+
+      if (error) throw error
+      setProfiles([data, ...profiles.filter((p) => p.id !== data.id)])
+      return { error: null, data }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to save import profile' }
+    }
+  }
+
+  const deleteProfile = async (id: string) => {
+    try {
+      const { error } = await supabase.from('import_profiles').delete().eq('id', id)
+
+      if (error) throw error
+      setProfiles(profiles.filter((p) => p.id !== id))
+      return { error: null }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to delete import profile' }
+    }
+  }
+
+  return {
+    profiles,
+    loading,
+    error,
+    saveProfile,
+    deleteProfile,
+  }
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect, useMemo } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useHousehold } from './useHousehold'
+import type { Transaction } from './useTransactions'
+
+// Where a rule categorized the transaction
+export type RuleHitSource = 'import' | 'inbox' | 'manual' | 'retroactive'
+
+export interface RuleHit {
+  id: string
+  household_id: string
+  rule_id: string
+  transaction_id: string
+  source: RuleHitSource
+  matched_at: string
+}
+
+export interface RuleHitStats {
+  count: number // Transactions the rule has categorized
+  lastMatchedAt: string | null
+}
+
+export interface RuleHitWithTransaction extends RuleHit {
+  transaction: Transaction | null
+}
+
+const HIT_CHUNK_SIZE = 500
+
+/**
+ * Records that rules categorized transactions. Matching the same transaction again
+ * only moves its matched_at, so counts stay per transaction.
+ */
+export async function recordRuleHits(
+  householdId: string,
+  hits: { ruleId: string; transactionId: string }[],
+  source: RuleHitSource
+): Promise<void> {
+  const matchedAt = new Date().toISOString()
+  const rows = hits.map(hit => ({
+    household_id: householdId,
+    rule_id: hit.ruleId,
+    transaction_id: hit.transactionId,
+    source,
+    matched_at: matchedAt,
+  }))
+
+  for (let i = 0; i < rows.length; i += HIT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('rule_hits')
+      .upsert(rows.slice(i, i + HIT_CHUNK_SIZE), { onConflict: 'rule_id,transaction_id' })
+
+    if (error) throw error
+  }
+}
+
+// Supabase returns at most 1,000 rows per request, so hits are read in pages
+const HIT_PAGE_SIZE = 1000
+
+async function fetchHouseholdHits(householdId: string): Promise<Pick<RuleHit, 'rule_id' | 'transaction_id' | 'matched_at'>[]> {
+  const hits: Pick<RuleHit, 'rule_id' | 'transaction_id' | 'matched_at'>[] = []
+
+  for (let from = 0; ; from += HIT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('rule_hits')
+      .select('rule_id, transaction_id, matched_at')
+      .eq('household_id', householdId)
+      .order('id')
+      .range(from, from + HIT_PAGE_SIZE - 1)
+
+    if (error) throw error
+    hits.push(...(data || []))
+    if (!data || data.length < HIT_PAGE_SIZE) return hits
+  }
+}
+
+export function useRuleHits() {
+  const { household } = useHousehold()
+  const [hits, setHits] = useState<Pick<RuleHit, 'rule_id' | 'transaction_id' | 'matched_at'>[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchHits = async () => {
+      if (!household) {
+        setLoading(false)
+        return
+      }
+
+      try {
+        setHits(await fetchHouseholdHits(household.id))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch rule hits')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchHits()
+  }, [household])
+
+  const refetchHits = async () => {
+    if (!household) return
+
+    try {
+      setHits(await fetchHouseholdHits(household.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch rule hits')
+    }
+  }
+
+  const statsByRule = useMemo(() => {
+    const stats = new Map<string, RuleHitStats>()
+    for (const hit of hits) {
+      const current = stats.get(hit.rule_id) || { count: 0, lastMatchedAt: null }
+      current.count++
+      if (!current.lastMatchedAt || hit.matched_at > current.lastMatchedAt) current.lastMatchedAt = hit.matched_at
+      stats.set(hit.rule_id, current)
+    }
+    return stats
+  }, [hits])
+
+  const getRuleStats = (ruleId: string): RuleHitStats => {
+    return statsByRule.get(ruleId) || { count: 0, lastMatchedAt: null }
+  }
+
+  // Transactions a rule has categorized, most recent first
+  const fetchRuleTransactions = async (ruleId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('rule_hits')
+        .select('*, transaction:transactions(*)')
+        .eq('rule_id', ruleId)
+        .order('matched_at', { ascending: false })
+        .limit(100)
+
+      if (error) throw error
+      return { error: null, data: (data || []) as RuleHitWithTransaction[] }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to fetch rule transactions', data: [] }
+    }
+  }
+
+  return {
+    hits,
+    loading,
+    error,
+    getRuleStats,
+    fetchRuleTransactions,
+    refetch: refetchHits,
+  }
+}
@@ -0,0 +1,57 @@
+import { useState, useEffect } from 'react'
+import { useHousehold } from './useHousehold'
+import { matchRulesOnServer, type Rule } from './useRules'
+import type { TransactionWithDetails } from './useTransactions'
+
+// Rules being typed into the rule form change on every keystroke
+const MATCH_DELAY_MS = 300
+
+/**
+ * Which of the household's transactions each rule matches on its own, by rule id,
+ * as the database evaluates it (see matchRulesOnServer). Looked up again when the
+ * rules change or the transactions reload; the previous matches stay available
+ * meanwhile, so a list doesn't flash empty while a pattern is being typed.
+ */
+export function useRuleMatches(rules: Rule[] | null, transactions: TransactionWithDetails[]) {
+  const { household } = useHousehold()
+  const [result, setResult] = useState<{ key: string; matches: Map<string, Set<string>>; error: string | null }>({
+    key: '',
+    matches: new Map(),
+    error: null,
+  })
+
+  // Serialized so the lookup below only re-runs when a rule actually changes
+  const lookupKey = household && rules ? JSON.stringify({ householdId: household.id, rules }) : ''
+
+  useEffect(() => {
+    if (!lookupKey) return
+
+    const { householdId, rules } = JSON.parse(lookupKey)
+    let cancelled = false
+
+    const timer = setTimeout(() => {
+      matchRulesOnServer(householdId, rules)
+        .then(matches => {
+          if (!cancelled) setResult({ key: lookupKey, matches, error: null })
+        })
+        .catch(err => {
+          console.error('[useRuleMatches] Error matching rules:', err)
+          if (!cancelled) {
+            setResult({ key: lookupKey, matches: new Map(), error: err instanceof Error ? err.message : 'Failed to match rules' })
+          }
+        })
+    }, MATCH_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [lookupKey, transactions])
+
+  return {
+    matches: result.matches,
+    loading: Boolean(lookupKey) && result.key !== lookupKey,
+    loaded: result.key !== '',
+    error: result.error,
+  }
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useHousehold } from './useHousehold'
+
+export interface RuleSuggestionDismissal {
+  id: string
+  household_id: string
+  suggestion_key: string
+  created_at: string
+}
+
+export function useRuleSuggestionDismissals() {
+  const { household } = useHousehold()
+  const [dismissals, setDismissals] = useState<RuleSuggestionDismissal[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchDismissals = async () => {
+      if (!household) {
+        setLoading(false)
+        return
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('rule_suggestion_dismissals')
+          .select('*')
+          .eq('household_id', household.id)
+
+        if (error) throw error
+        setDismissals(data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch dismissed suggestions')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchDismissals()
+  }, [household])
+
+  // Hides suggestions for good, several at a time
+  const dismissSuggestions = async (suggestionKeys: string[]) => {
+    if (!household) return { error: 'No household found' }
+
+    try {
+      const { data, error } = await supabase
+        .from('rule_suggestion_dismissals')
+        .upsert(
+          suggestionKeys.map(key => ({ household_id: household.id, suggestion_key: key })),
+          { onConflict: 'household_id,suggestion_key', ignoreDuplicates: true }
+        )
+        .select()
+
+      if (error) throw error
+      setDismissals([...dismissals, ...(data || [])])
+      return { error: null }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Failed to dismiss suggestions' }
+    }
+  }
+
+  return {
+    dismissals,
+    loading,
+    error,
+    dismissSuggestions,
+  }
+}
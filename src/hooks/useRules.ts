@@ -1,17 +1,203 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '../lib/supabase'
 import { useHousehold } from './useHousehold'
+import { validateRulePattern, type RuleCondition, type RuleConditionLogic, type RuleMatchType, type RuleMatchInput, type RuleEvaluation } from '@/lib/ruleMatching'
 
 export interface Rule {
   id: string
   household_id: string
   pattern: string
+  match_type: RuleMatchType
   category_id: string
   member_id: string | null
+  priority: number // Evaluation order, lowest first
+  stop_processing: boolean // Skip the remaining rules once this one matches
+  conditions: RuleCondition[] // Checked in addition to the pattern
+  condition_logic: RuleConditionLogic
+  set_vendor: string | null // Display vendor, overriding the one extracted from the description
+  add_tags: string[]
+  add_note: string | null
+  mark_transfer: boolean // Transfers are left out of reports
+  mark_reimbursable: boolean
   created_at: string
   updated_at: string
 }
 
+// Actions a rule can take besides setting the category and member
+export type RuleActions = Pick<Rule, 'set_vendor' | 'add_tags' | 'add_note' | 'mark_transfer' | 'mark_reimbursable'>
+
+export type RuleUpdates = {
+  pattern?: string
+  match_type?: RuleMatchType
+  category_id?: string
+  member_id?: string | null
+  stop_processing?: boolean
+  conditions?: RuleCondition[]
+  condition_logic?: RuleConditionLogic
+} & Partial<RuleActions>
+
+export interface NewRuleOptions {
+  matchType?: RuleMatchType
+  stopProcessing?: boolean
+  conditions?: RuleCondition[]
+  conditionLogic?: RuleConditionLogic
+  actions?: RuleActions
+}
+
+export interface NewRule {
+  pattern: string
+  categoryId: string | null
+  memberId: string | null
+  options?: NewRuleOptions
+}
+
+function toRuleInsert(householdId: string, rule: NewRule, priority: number) {
+  const options = rule.options || {}
+  return {
+    household_id: householdId,
+    pattern: rule.pattern,
+    match_type: options.matchType || 'contains',
+    category_id: rule.categoryId,
+    member_id: rule.memberId,
+    priority,
+    stop_processing: options.stopProcessing || false,
+    conditions: options.conditions || [],
+    condition_logic: options.conditionLogic || 'all',
+    ...options.actions,
+  }
+}
+
+// Id for a rule that isn't saved yet, e.g. one being written in the rule form
+export const DRAFT_RULE_ID = '00000000-0000-0000-0000-000000000000'
+
+const EVALUATE_CHUNK_SIZE = 500
+
+// The fields the database evaluates a rule by, for rules sent instead of the saved ones
+function toRuleJson(rule: Rule) {
+  return {
+    id: rule.id,
+    pattern: rule.pattern,
+    match_type: rule.match_type,
+    category_id: rule.category_id,
+    member_id: rule.member_id,
+    priority: rule.priority,
+    stop_processing: rule.stop_processing,
+    conditions: rule.conditions,
+    condition_logic: rule.condition_logic,
+    set_vendor: rule.set_vendor,
+    add_tags: rule.add_tags,
+    add_note: rule.add_note,
+    mark_transfer: rule.mark_transfer,
+    mark_reimbursable: rule.mark_reimbursable,
+    created_at: rule.created_at,
+  }
+}
+
+// A result of evaluate_rule_set in database-updates.sql
+interface RuleEvaluationRow {
+  category_id: string | null
+  member_id: string | null
+  vendor: string | null
+  tags: string[] | null
+  note: string | null
+  is_transfer: boolean
+  is_reimbursable: boolean
+  matched_rule_ids: string[] | null
+}
+
+function toRuleEvaluation(row: RuleEvaluationRow): RuleEvaluation {
+  return {
+    categoryId: row.category_id,
+    memberId: row.member_id,
+    vendor: row.vendor,
+    tags: row.tags || [],
+    note: row.note,
+    isTransfer: row.is_transfer,
+    isReimbursable: row.is_reimbursable,
+    matchedRuleIds: row.matched_rule_ids || [],
+  }
+}
+
+/**
+ * validateRulePattern, plus the checks only the database can make: regular expressions
+ * are checked in the Postgres dialect that will run them (validate_rule_pattern)
+ */
+export async function validateRulePatternOnServer(pattern: string, matchType: RuleMatchType): Promise<string | null> {
+  const localError = validateRulePattern(pattern, matchType)
+  if (localError || matchType !== 'regex') return localError
+
+  const { data, error } = await supabase.rpc('validate_rule_pattern', {
+    p_pattern: pattern,
+    p_match_type: matchType,
+  })
+
+  if (error) throw error
+  return data || null
+}
+
+/**
+ * Runs the household's saved rules in the database (evaluate_rules_for_rows), the
+ * same evaluation the insert trigger applies, so a preview shows what will be stored.
+ * Results are in the order of the inputs.
+ */
+export async function evaluateRulesOnServer(householdId: string, inputs: RuleMatchInput[]): Promise<RuleEvaluation[]> {
+  const results: RuleEvaluation[] = []
+
+  for (let i = 0; i < inputs.length; i += EVALUATE_CHUNK_SIZE) {
+    const { data, error } = await supabase.rpc('evaluate_rules_for_rows', {
+      p_household_id: householdId,
+      p_rows: inputs.slice(i, i + EVALUATE_CHUNK_SIZE).map(input => ({
+        description: input.description,
+        card_number: input.cardNumber || null,
+        amount: input.amount ?? null,
+        date: input.date || null,
+        account_id: input.accountId || null,
+      })),
+    })
+
+    if (error) throw error
+
+    results.push(...(data || []).map(toRuleEvaluation))
+  }
+
+  return results
+}
+
+/**
+ * Runs the household's saved rules over transactions already in the database
+ * (evaluate_rules_for_transactions): all of them, or only transactionIds. Only
+ * transactions a rule matched are in the result, by transaction id.
+ */
+export async function evaluateTransactionsOnServer(
+  householdId: string,
+  transactionIds?: string[]
+): Promise<Map<string, RuleEvaluation>> {
+  const { data, error } = await supabase.rpc('evaluate_rules_for_transactions', {
+    p_household_id: householdId,
+    p_transaction_ids: transactionIds || null,
+  })
+
+  if (error) throw error
+
+  return new Map(Object.entries(data || {}).map(([transactionId, row]) => [transactionId, toRuleEvaluation(row as RuleEvaluationRow)]))
+}
+
+/**
+ * Which of the household's transactions each rule matches on its own, ignoring rule
+ * order (match_rules_to_transactions), by rule id. Uses the saved rules unless rules
+ * are given, e.g. to include one that is still being written (see DRAFT_RULE_ID).
+ */
+export async function matchRulesOnServer(householdId: string, rules?: Rule[]): Promise<Map<string, Set<string>>> {
+  const { data, error } = await supabase.rpc('match_rules_to_transactions', {
+    p_household_id: householdId,
+    p_rules: rules ? rules.map(toRuleJson) : null,
+  })
+
+  if (error) throw error
+
+  return new Map(Object.entries(data || {}).map(([ruleId, transactionIds]) => [ruleId, new Set(transactionIds as string[])]))
+}
+
 export function useRules() {
   const { household } = useHousehold()
   const [rules, setRules] = useState<Rule[]>([])
@@ -32,7 +218,8 @@ export function useRules() {
           .from('rules')
           .select('*')
           .eq('household_id', household.id)
-          .order('created_at', { ascending: false })
+          .order('priority', { ascending: true })
+          .order('created_at', { ascending: true })
 
         if (error) throw error
 
@@ -51,38 +238,53 @@ export function useRules() {
   const addRule = async (
     pattern: string,
     categoryId: string | null,
-    memberId: string | null = null
+    memberId: string | null = null,
+    options: NewRuleOptions = {}
   ) => {
     if (!household) throw new Error('No household found')
 
-    console.log('[useRules] Adding rule:', { pattern, categoryId, memberId })
+    console.log('[useRules] Adding rule:', { pattern, categoryId, memberId, ...options })
 
     const { data, error } = await supabase
       .from('rules')
-      .insert({
-        household_id: household.id,
-        pattern,
-        category_id: categoryId,
-        member_id: memberId,
-      })
+      // New rules go last so they never silently override existing ones
+      .insert(toRuleInsert(
+        household.id,
+        { pattern, categoryId, memberId, options },
+        rules.reduce((max, r) => Math.max(max, r.priority ?? 0), 0) + 1
+      ))
       .select()
       .single()
 
     if (error) throw error
 
     console.log('[useRules] Rule added:', data)
-    setRules([data, ...rules])
+    setRules([...rules, data])
     return data
   }
 
-  const updateRule = async (
-    id: string,
-    updates: {
-      pattern?: string
-      category_id?: string
-      member_id?: string | null
-    }
-  ) => {
+  /**
+   * Adds several rules at once (e.g. accepted suggestions or an imported file),
+   * after the existing ones in the given order
+   */
+  const addRules = async (newRules: NewRule[]) => {
+    if (!household) throw new Error('No household found')
+
+    const maxPriority = rules.reduce((max, r) => Math.max(max, r.priority ?? 0), 0)
+
+    const { data, error } = await supabase
+      .from('rules')
+      .insert(newRules.map((rule, index) => toRuleInsert(household.id, rule, maxPriority + index + 1)))
+      .select()
+
+    if (error) throw error
+
+    console.log('[useRules] Rules added:', data?.length)
+    setRules([...rules, ...(data || [])])
+    return data || []
+  }
+
+  const updateRule = async (id: string, updates: RuleUpdates) => {
     console.log('[useRules] Updating rule:', id, updates)
 
     const { data, error } = await supabase
@@ -113,6 +315,33 @@ export function useRules() {
     setRules(rules.filter((r) => r.id !== id))
   }
 
+  // Saves the order the rules are listed in as their priorities
+  const reorderRules = async (orderedIds: string[]) => {
+    if (!household) throw new Error('No household found')
+
+    console.log('[useRules] Reordering rules')
+
+    const previous = rules
+    const reordered = orderedIds
+      .map((id, index) => {
+        const rule = rules.find((r) => r.id === id)
+        return rule ? { ...rule, priority: index + 1 } : null
+      })
+      .filter(Boolean) as Rule[]
+
+    setRules(reordered)
+
+    const { error } = await supabase.rpc('reorder_rules', {
+      p_household_id: household.id,
+      p_rule_ids: reordered.map((r) => r.id),
+    })
+
+    if (error) {
+      setRules(previous)
+      throw error
+    }
+  }
+
   const refetch = async () => {
     if (!household) return
 
@@ -124,7 +353,8 @@ export function useRules() {
         .from('rules')
         .select('*')
         .eq('household_id', household.id)
-        .order('created_at', { ascending: false })
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true })
 
       if (error) throw error
 
@@ -141,8 +371,10 @@ export function useRules() {
     rules,
     loading,
     addRule,
+    addRules,
     updateRule,
     deleteRule,
+    reorderRules,
     refetch,
   }
 }
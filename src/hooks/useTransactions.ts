@@ -11,6 +11,16 @@ export interface Transaction {
   vendor?: string | null
   category_id: string | null
   member_id: string | null
+  import_batch_id?: string | null
+  value_date?: string | null
+  counterparty?: string | null
+  remittance_info?: string | null
+  bank_reference?: string | null
+  card_number?: string | null
+  tags?: string[]
+  notes?: string | null
+  is_transfer?: boolean // Left out of reports
+  is_reimbursable?: boolean
   created_at: string
   updated_at: string
 }
@@ -21,55 +31,130 @@ export interface TransactionWithDetails extends Transaction {
   member?: { id: string; name: string }
 }
 
-export function useTransactions(accountId?: string) {
+// Hashes are sent in the query string, so lookups use smaller chunks than inserts
+const HASH_LOOKUP_CHUNK_SIZE = 200
+const INSERT_CHUNK_SIZE = 500
+const UPDATE_CHUNK_SIZE = 200
+
+/**
+ * Returns which of the given hashes already exist in the accounts.
+ * Queried in chunks so the request URL stays within limits on large files.
+ */
+export async function findExistingHashes(accountIds: string[], hashes: string[]): Promise<Set<string>> {
+  const existing = new Set<string>()
+  const unique = [...new Set(hashes)]
+
+  for (let i = 0; i < unique.length; i += HASH_LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('transaction_hash')
+      .in('account_id', accountIds)
+      .in('transaction_hash', unique.slice(i, i + HASH_LOOKUP_CHUNK_SIZE))
+
+    if (error) throw error
+    data?.forEach(row => existing.add(row.transaction_hash))
+  }
+
+  return existing
+}
+
+/**
+ * Lightweight fetch of the accounts' transactions between two dates (inclusive),
+ * used to look for fuzzy duplicates of rows about to be imported
+ */
+export async function findTransactionsInRange(
+  accountIds: string[],
+  fromDate: string,
+  toDate: string
+): Promise<Pick<Transaction, 'id' | 'account_id' | 'date' | 'description' | 'amount' | 'vendor'>[]> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('id, account_id, date, description, amount, vendor')
+    .in('account_id', accountIds)
+    .gte('date', fromDate)
+    .lte('date', toDate)
+
+  if (error) throw error
+  return data || []
+}
+
+const TRANSACTION_SELECT = `
+  *,
+  account:accounts(id, name, account_type),
+  category:categories(id, name),
+  member:household_members(id, name)
+`
+
+// The API returns at most this many rows per request
+const PAGE_SIZE = 1000
+
+/**
+ * The household's transactions (or one account's), newest first. Without `all`
+ * this is a single request, so only the newest PAGE_SIZE come back; with it the
+ * rows are fetched page by page until every one is loaded. totalCount is how many
+ * there are in the database either way.
+ */
+async function fetchTransactions(
+  householdId: string,
+  accountId: string | undefined,
+  all: boolean
+): Promise<{ rows: TransactionWithDetails[]; totalCount: number }> {
+  let accountIds = accountId ? [accountId] : []
+  if (!accountId) {
+    // Otherwise, get all transactions for all accounts in this household
+    const { data: accounts } = await supabase
+      .from('accounts')
+      .select('id')
+      .eq('household_id', householdId)
+
+    accountIds = (accounts || []).map(a => a.id)
+    // No accounts, no transactions
+    if (accountIds.length === 0) return { rows: [], totalCount: 0 }
+  }
+
+  const rows: TransactionWithDetails[] = []
+  let totalCount = 0
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error, count } = await supabase
+      .from('transactions')
+      // Counted with the first page only
+      .select(TRANSACTION_SELECT, from === 0 ? { count: 'exact' } : undefined)
+      .in('account_id', accountIds)
+      .order('date', { ascending: false })
+      // Ties broken by id so pages don't overlap or skip rows
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    if (from === 0) totalCount = count || 0
+    rows.push(...(data || []))
+    if (!all || !data || data.length < PAGE_SIZE) return { rows, totalCount }
+  }
+}
+
+/**
+ * Pass `{ all: true }` where every transaction matters, such as the duplicate
+ * search; otherwise only the newest 1,000 are loaded, and totalCount says how
+ * many there are in all.
+ */
+export function useTransactions(accountId?: string, { all = false }: { all?: boolean } = {}) {
   const { household } = useHousehold()
   const [transactions, setTransactions] = useState<TransactionWithDetails[]>([])
+  const [totalCount, setTotalCount] = useState(0)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
-    const fetchTransactions = async () => {
+    const loadTransactions = async () => {
       if (!household) {
         setLoading(false)
         return
       }
 
       try {
-        let query = supabase
-          .from('transactions')
-          .select(`
-            *,
-            account:accounts(id, name, account_type),
-            category:categories(id, name),
-            member:household_members(id, name)
-          `)
-          .order('date', { ascending: false })
-
-        // Filter by account if accountId is provided
-        if (accountId) {
-          query = query.eq('account_id', accountId)
-        } else {
-          // Otherwise, get all transactions for all accounts in this household
-          const { data: accounts } = await supabase
-            .from('accounts')
-            .select('id')
-            .eq('household_id', household.id)
-
-          if (accounts && accounts.length > 0) {
-            const accountIds = accounts.map(a => a.id)
-            query = query.in('account_id', accountIds)
-          } else {
-            // No accounts, no transactions
-            setTransactions([])
-            setLoading(false)
-            return
-          }
-        }
-
-        const { data, error } = await query
-
-        if (error) throw error
-        setTransactions(data || [])
+        const { rows, totalCount } = await fetchTransactions(household.id, accountId, all)
+        setTransactions(rows)
+        setTotalCount(totalCount)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to fetch transactions')
       } finally {
@@ -77,46 +162,17 @@ export function useTransactions(accountId?: string) {
       }
     }
 
-    fetchTransactions()
-  }, [household, accountId])
+    loadTransactions()
+  }, [household, accountId, all])
 
   const refetchTransactions = async () => {
     if (!household) return
 
     setLoading(true)
     try {
-      let query = supabase
-        .from('transactions')
-        .select(`
-          *,
-          account:accounts(id, name, account_type),
-          category:categories(id, name),
-          member:household_members(id, name)
-        `)
-        .order('date', { ascending: false })
-
-      if (accountId) {
-        query = query.eq('account_id', accountId)
-      } else {
-        const { data: accounts } = await supabase
-          .from('accounts')
-          .select('id')
-          .eq('household_id', household.id)
-
-        if (accounts && accounts.length > 0) {
-          const accountIds = accounts.map(a => a.id)
-          query = query.in('account_id', accountIds)
-        } else {
-          setTransactions([])
-          setLoading(false)
-          return
-        }
-      }
-
-      const { data, error } = await query
-
-      if (error) throw error
-      setTransactions(data || [])
+      const { rows, totalCount } = await fetchTransactions(household.id, accountId, all)
+      setTransactions(rows)
+      setTotalCount(totalCount)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch transactions')
     } finally {
@@ -134,11 +190,26 @@ export function useTransactions(accountId?: string) {
       transaction_hash?: string
       category_id?: string | null
       member_id?: string | null
-    }>
+      account_id?: string // Overrides accountId, e.g. for rows routed by card number
+      value_date?: string | null
+      counterparty?: string | null
+      remittance_info?: string | null
+      bank_reference?: string | null
+      card_number?: string | null // Lets rules that match card numbers run on insert
+      tags?: string[]
+      notes?: string | null
+      is_transfer?: boolean
+      is_reimbursable?: boolean
+    }>,
+    importBatchId?: string,
+    onProgress?: (done: number, total: number) => void
   ) => {
+    // Chunks committed before a failure stay in the database, so the caller needs the count
+    let inserted = 0
+
     try {
       const transactionsToInsert = transactions.map(t => ({
-        account_id: accountId,
+        account_id: t.account_id || accountId,
         date: t.date,
         description: t.description,
         amount: t.amount,
@@ -146,69 +217,68 @@ export function useTransactions(accountId?: string) {
         transaction_hash: t.transaction_hash || null,
         category_id: t.category_id || null,
         member_id: t.member_id || null,
+        import_batch_id: importBatchId || null,
+        value_date: t.value_date || null,
+        counterparty: t.counterparty || null,
+        remittance_info: t.remittance_info || null,
+        bank_reference: t.bank_reference || null,
+        card_number: t.card_number || null,
+        tags: t.tags || [],
+        notes: t.notes || null,
+        is_transfer: t.is_transfer || false,
+        is_reimbursable: t.is_reimbursable || false,
       }))
 
       console.log('[useTransactions] Inserting transactions to account:', accountId)
       console.log('[useTransactions] Sample insert data:', transactionsToInsert[0])
 
-      // Try to insert all transactions
-      // Duplicates will be automatically rejected by the unique constraint
-      const { data, error } = await supabase
-        .from('transactions')
-        .insert(transactionsToInsert)
-        .select()
-
-      if (error) {
-        // Check if it's a duplicate error
-        if (error.code === '23505') { // Unique constraint violation
-          console.warn('[useTransactions] Some transactions were duplicates and skipped')
-          // Try inserting one by one to see which ones succeed
-          const results = []
-          for (const transaction of transactionsToInsert) {
-            const { data: singleData, error: singleError } = await supabase
-              .from('transactions')
-              .insert(transaction)
-              .select()
-
-            if (!singleError && singleData) {
-              results.push(...singleData)
-            } else if (singleError?.code !== '23505') {
-              // If it's not a duplicate error, something else went wrong
-              throw singleError
-            }
-          }
-
-          await refetchTransactions()
-          const duplicateCount = transactionsToInsert.length - results.length
-          return {
-            error: null,
-            count: results.length,
-            duplicates: duplicateCount,
-          }
+      // Rows that hit the unique_transaction_hash constraint are skipped by the
+      // database (ON CONFLICT DO NOTHING), so one duplicate no longer fails the chunk
+      onProgress?.(0, transactionsToInsert.length)
+
+      for (let i = 0; i < transactionsToInsert.length; i += INSERT_CHUNK_SIZE) {
+        const chunk = transactionsToInsert.slice(i, i + INSERT_CHUNK_SIZE)
+        const { data, error } = await supabase
+          .from('transactions')
+          .upsert(chunk, { onConflict: 'account_id,transaction_hash', ignoreDuplicates: true })
+          .select('id, account_id, transaction_hash')
+
+        if (error) {
+          console.error('[useTransactions] Supabase error:', error)
+          throw error
         }
 
-        console.error('[useTransactions] Supabase error:', error)
-        throw error
+        inserted += data?.length || 0
+        onProgress?.(i + chunk.length, transactionsToInsert.length)
       }
 
-      console.log('[useTransactions] Insert successful:', data?.length, 'transactions')
+      const duplicateCount = transactionsToInsert.length - inserted
+      console.log('[useTransactions] Insert successful:', inserted, 'transactions,', duplicateCount, 'duplicates skipped')
 
       // Refresh the list
       await refetchTransactions()
 
-      return { error: null, count: data?.length || 0, duplicates: 0 }
+      return { error: null, count: inserted, duplicates: duplicateCount }
     } catch (err) {
       console.error('[useTransactions] Import failed:', err)
       return {
         error: err instanceof Error ? err.message : 'Failed to import transactions',
-        count: 0
+        count: inserted
       }
     }
   }
 
   const updateTransaction = async (
     id: string,
-    updates: { category_id?: string | null; member_id?: string | null }
+    updates: {
+      category_id?: string | null
+      member_id?: string | null
+      vendor?: string | null
+      tags?: string[]
+      notes?: string | null
+      is_transfer?: boolean
+      is_reimbursable?: boolean
+    }
   ) => {
     try {
       const { error } = await supabase
@@ -244,6 +314,43 @@ export function useTransactions(accountId?: string) {
     }
   }
 
+  /**
+   * Applies the same update to many transactions, e.g. when rules are run over
+   * existing transactions. Ids go in the query string, so they are sent in chunks.
+   */
+  const updateTransactions = async (
+    ids: string[],
+    updates: {
+      category_id?: string | null
+      member_id?: string | null
+      vendor?: string | null
+      tags?: string[]
+      notes?: string | null
+      is_transfer?: boolean
+      is_reimbursable?: boolean
+    }
+  ) => {
+    let updated = 0
+
+    try {
+      for (let i = 0; i < ids.length; i += UPDATE_CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + UPDATE_CHUNK_SIZE)
+        const { error } = await supabase
+          .from('transactions')
+          .update(updates)
+          .in('id', chunk)
+
+        if (error) throw error
+        updated += chunk.length
+      }
+
+      return { error: null, count: updated }
+    } catch (err) {
+      console.error('[useTransactions] Bulk update failed:', err)
+      return { error: err instanceof Error ? err.message : 'Failed to update transactions', count: updated }
+    }
+  }
+
   const deleteTransaction = async (id: string) => {
     try {
       const { error } = await supabase
@@ -259,13 +366,66 @@ export function useTransactions(accountId?: string) {
     }
   }
 
+  /**
+   * Merges a duplicate into the transaction being kept: the kept one picks up
+   * whatever details (category, member, vendor, statement fields) it has none of
+   * from the other, plus its tags, notes and flags, then the other is deleted.
+   */
+  const mergeTransactions = async (keepId: string, removeId: string) => {
+    const keep = transactions.find(t => t.id === keepId)
+    const remove = transactions.find(t => t.id === removeId)
+    if (!keep || !remove) return { error: 'Transaction not found' }
+
+    try {
+      const notes = [...new Set([keep.notes, remove.notes].map(n => n?.trim()).filter(Boolean))]
+      const updates = {
+        category_id: keep.category_id || remove.category_id,
+        member_id: keep.member_id || remove.member_id,
+        vendor: keep.vendor || remove.vendor || null,
+        tags: [...new Set([...(keep.tags || []), ...(remove.tags || [])])],
+        notes: notes.length > 0 ? notes.join('\n') : null,
+        is_transfer: Boolean(keep.is_transfer || remove.is_transfer),
+        is_reimbursable: Boolean(keep.is_reimbursable || remove.is_reimbursable),
+        value_date: keep.value_date || remove.value_date || null,
+        counterparty: keep.counterparty || remove.counterparty || null,
+        remittance_info: keep.remittance_info || remove.remittance_info || null,
+        bank_reference: keep.bank_reference || remove.bank_reference || null,
+        card_number: keep.card_number || remove.card_number || null,
+      }
+
+      const { error: updateError } = await supabase
+        .from('transactions')
+        .update(updates)
+        .eq('id', keepId)
+
+      if (updateError) throw updateError
+
+      const { error: deleteError } = await supabase
+        .from('transactions')
+        .delete()
+        .eq('id', removeId)
+
+      if (deleteError) throw deleteError
+
+      // Refetch so the kept transaction carries the merged details
+      await refetchTransactions()
+      return { error: null }
+    } catch (err) {
+      console.error('[useTransactions] Merge failed:', err)
+      return { error: err instanceof Error ? err.message : 'Failed to merge transactions' }
+    }
+  }
+
   return {
     transactions,
+    totalCount,
     loading,
     error,
     importTransactions,
     updateTransaction,
+    updateTransactions,
     deleteTransaction,
+    mergeTransactions,
     refetch: refetchTransactions,
   }
 }
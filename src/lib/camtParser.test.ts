@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest'
+import { parseCAMT } from './camtParser'
+
+const statement = (entries: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>${entries}</Stmt>
+  </BkToCstmrStmt>
+</Document>`
+
+interface EntryOptions {
+  amount?: string
+  indicator?: 'DBIT' | 'CRDT'
+  status?: string
+  bookingDate?: string
+  valueDate?: string
+  details?: string
+  reference?: string
+}
+
+const entry = ({
+  amount = '12.50',
+  indicator = 'DBIT',
+  status = '<Cd>BOOK</Cd>',
+  bookingDate = '<Dt>2024-01-05</Dt>',
+  valueDate = '<Dt>2024-01-05</Dt>',
+  details = '',
+  reference = 'REF1',
+}: EntryOptions) => `
+      <Ntry>
+        <Amt Ccy="EUR">${amount}</Amt>
+        <CdtDbtInd>${indicator}</CdtDbtInd>
+        <Sts>${status}</Sts>
+        <BookgDt>${bookingDate}</BookgDt>
+        <ValDt>${valueDate}</ValDt>
+        <AcctSvcrRef>${reference}</AcctSvcrRef>
+        <NtryDtls><TxDtls>${details}</TxDtls></NtryDtls>
+      </Ntry>`
+
+describe('parseCAMT', () => {
+  it('signs amounts by the debit/credit indicator and names the counterparty', () => {
+    const rows = parseCAMT(statement(
+      entry({
+        details: '<RltdPties><Dbtr><Nm>Wrong side</Nm></Dbtr><Cdtr><Nm>Bakery &amp; Sons</Nm></Cdtr></RltdPties><RmtInf><Ustrd>Invoice 42</Ustrd></RmtInf>',
+      }) +
+      entry({
+        amount: '2000.00',
+        indicator: 'CRDT',
+        reference: 'REF2',
+        details: '<RltdPties><Dbtr><Nm>Employer</Nm></Dbtr></RltdPties>',
+      })
+    ))
+
+    expect(rows).toEqual([
+      {
+        date: '2024-01-05',
+        description: 'Bakery & Sons - Invoice 42',
+        amount: -12.5,
+        externalId: 'REF1',
+        valueDate: null,
+        counterparty: 'Bakery & Sons',
+        remittanceInfo: 'Invoice 42',
+      },
+      expect.objectContaining({ description: 'Employer', amount: 2000, counterparty: 'Employer', externalId: 'REF2' }),
+    ])
+  })
+
+  it('keeps a value date only when it differs from the booking date', () => {
+    const [row] = parseCAMT(statement(entry({ bookingDate: '<DtTm>2024-01-05T10:00:00</DtTm>', valueDate: '<Dt>2024-01-03</Dt>' })))
+    expect(row).toMatchObject({ date: '2024-01-05', valueDate: '2024-01-03' })
+  })
+
+  it('only imports booked entries', () => {
+    const rows = parseCAMT(statement(entry({ status: '<Cd>PDNG</Cd>' }) + entry({ status: 'BOOK', reference: 'REF2' })))
+    expect(rows.map(r => r.externalId)).toEqual(['REF2'])
+  })
+
+  it('reads namespace-prefixed statements', () => {
+    const rows = parseCAMT(statement(entry({})).replace(/<(\/?)(\w+)/g, '<$1ns2:$2'))
+    expect(rows).toHaveLength(1)
+    expect(rows[0].amount).toBe(-12.5)
+  })
+
+  it('skips entries without a booking date or a readable amount', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const rows = parseCAMT(statement(entry({ bookingDate: '' }) + entry({ amount: 'n/a' }) + entry({ reference: 'OK' })))
+
+    expect(rows.map(r => r.externalId)).toEqual(['OK'])
+    warn.mockRestore()
+  })
+
+  it('rejects other XML', () => {
+    expect(() => parseCAMT('<?xml version="1.0"?><OFX></OFX>')).toThrow('does not look like a CAMT.053 statement')
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * CAMT.053 Parser
+ *
+ * Reads booked entries from ISO 20022 bank-to-customer statements (camt.053 XML),
+ * as exported by most European banks. Each <Ntry> becomes one transaction;
+ * batch entries keep the details of their first transaction.
+ */
+
+import type { StatementTransaction } from './statementImport'
+
+export function parseCAMT(content: string): StatementTransaction[] {
+  if (!/<(\w+:)?BkToCstmrStmt>/.test(content)) {
+    throw new Error('This does not look like a CAMT.053 statement')
+  }
+
+  const transactions: StatementTransaction[] = []
+
+  for (const entry of getBlocks(content, 'Ntry')) {
+    // Pending entries (PDNG/INFO) can still change; only booked ones are imported
+    const status = getFirstValue(entry, ['Sts', 'Cd']) || getFirstValue(entry, ['Sts'])
+    if (status && status !== 'BOOK') continue
+
+    const amountText = getFirstValue(entry, ['Amt'])
+    const bookingDate = getDate(entry, 'BookgDt')
+
+    if (!amountText || !bookingDate) {
+      console.warn('[camtParser] Skipping entry without booking date or amount:', entry)
+      continue
+    }
+
+    const amount = parseFloat(amountText)
+    if (isNaN(amount)) {
+      console.warn('[camtParser] Skipping entry with invalid amount:', amountText)
+      continue
+    }
+
+    // Amounts are unsigned; the debit/credit indicator carries the direction
+    const isDebit = getFirstValue(entry, ['CdtDbtInd']) === 'DBIT'
+    const details = getBlocks(entry, 'TxDtls')[0] || ''
+
+    // The counterparty is the creditor on outgoing payments and the debtor on incoming ones
+    const partyTag = isDebit ? 'Cdtr' : 'Dbtr'
+    const counterparty = getFirstValue(details, ['RltdPties', partyTag, 'Pty', 'Nm'])
+      || getFirstValue(details, ['RltdPties', partyTag, 'Nm'])
+
+    const remittanceInfo = getBlocks(details, 'Ustrd').map(decodeEntities).join(' ').trim()
+      || getFirstValue(details, ['AddtlTxInf'])
+      || getFirstValue(entry, ['AddtlNtryInf'])
+
+    const valueDate = getDate(entry, 'ValDt')
+
+    transactions.push({
+      date: bookingDate,
+      description: [counterparty, remittanceInfo].filter(Boolean).join(' - ') || 'Unknown',
+      amount: isDebit ? -amount : amount,
+      externalId: getFirstValue(entry, ['AcctSvcrRef']) || getFirstValue(details, ['Refs', 'AcctSvcrRef']),
+      valueDate: valueDate && valueDate !== bookingDate ? valueDate : null,
+      counterparty,
+      remittanceInfo: remittanceInfo || null,
+    })
+  }
+
+  return transactions
+}
+
+/**
+ * Inner XML of every element with the tag, allowing a namespace prefix (e.g. <ns2:Ntry>)
+ */
+function getBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g')
+  return [...xml.matchAll(pattern)].map(match => match[1])
+}
+
+/**
+ * Text of the first element found by following the tag path, or null
+ */
+function getFirstValue(xml: string, path: string[]): string | null {
+  let current = xml
+  for (const tag of path) {
+    const block = getBlocks(current, tag)[0]
+    if (block === undefined) return null
+    current = block
+  }
+
+  // A path ending on an aggregate (e.g. <Sts><Cd>) has no text of its own
+  if (current.includes('<')) return null
+
+  const value = decodeEntities(current.trim())
+  return value.length > 0 ? value : null
+}
+
+/**
+ * Date of a CAMT date choice element: <Dt>YYYY-MM-DD</Dt> or <DtTm>YYYY-MM-DDThh:mm:ss</DtTm>
+ */
+function getDate(xml: string, tag: string): string | null {
+  const value = getFirstValue(xml, [tag, 'Dt']) || getFirstValue(xml, [tag, 'DtTm'])
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2})/)
+  return match ? match[1] : null
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
@@ -0,0 +1,191 @@
+/**
+ * Category Classifier
+ *
+ * Predicts a transaction's category from the household's own categorized
+ * transactions (naive Bayes), so predictions use the household's categories
+ * instead of a fixed keyword list. Each transaction is reduced to a few tokens -
+ * description words, vendor, amount range and account - and categories are scored
+ * by how often they came with those tokens. Runs entirely in the browser, on
+ * whatever transactions it is given - in the app the newest 1,000 that are loaded.
+ *
+ * Training is incremental: syncClassifier only adds and removes the transactions
+ * that changed since the last sync, e.g. the one just categorized.
+ */
+
+import type { TransactionWithDetails } from '@/hooks/useTransactions'
+import { extractVendor } from './vendorExtraction'
+import { isIncome } from './transactionUtils'
+
+export const MAX_CATEGORY_PREDICTIONS = 3
+
+// With fewer categorized transactions the predictions are mostly noise
+export const MIN_TRAINING_EXAMPLES = 10
+
+export interface CategoryPrediction {
+  categoryId: string
+  confidence: number // 0-1, relative to the other categories
+}
+
+interface TrainedExample {
+  categoryId: string
+  signature: string // What the tokens were built from, to notice edits
+  tokens: string[]
+}
+
+export interface CategoryClassifier {
+  examples: Map<string, TrainedExample> // By transaction id, so a recategorized one can be untrained
+  categoryCounts: Map<string, number>
+  tokenCounts: Map<string, Map<string, number>> // Per category
+  tokenTotals: Map<string, number> // Per category
+  vocabulary: Map<string, number> // Every token seen, with how many categories use it
+}
+
+export function createClassifier(): CategoryClassifier {
+  return {
+    examples: new Map(),
+    categoryCounts: new Map(),
+    tokenCounts: new Map(),
+    tokenTotals: new Map(),
+    vocabulary: new Map(),
+  }
+}
+
+function getSignature(transaction: TransactionWithDetails): string {
+  return [transaction.description, transaction.vendor || '', transaction.amount, transaction.account_id].join('|')
+}
+
+/**
+ * Tokens a transaction is classified by. Amounts go in ranges that double in size
+ * ($1-2, $2-4, ...), so a $12 and a $14 lunch look alike but a $900 rent payment doesn't.
+ */
+export function tokenizeTransaction(transaction: TransactionWithDetails): string[] {
+  const tokens = new Set<string>()
+
+  // Numbers are mostly store ids, dates and reference codes
+  for (const word of transaction.description.toLowerCase().split(/[^a-z0-9]+/)) {
+    if (word.length >= 2 && !/^\d+$/.test(word)) tokens.add(`word:${word}`)
+  }
+
+  const vendor = (transaction.vendor || extractVendor(transaction.description)).toLowerCase().trim()
+  if (vendor) tokens.add(`vendor:${vendor}`)
+
+  const direction = isIncome(transaction) ? 'in' : 'out'
+  tokens.add(`amount:${direction}:${Math.floor(Math.log2(Math.abs(transaction.amount) + 1))}`)
+
+  if (transaction.account_id) tokens.add(`account:${transaction.account_id}`)
+
+  return [...tokens]
+}
+
+/**
+ * Brings the classifier up to date with the transactions: newly categorized ones are
+ * learned, recategorized or edited ones relearned, and uncategorized or deleted ones
+ * forgotten. Returns the same classifier when nothing changed.
+ */
+export function syncClassifier(classifier: CategoryClassifier, transactions: TransactionWithDetails[]): CategoryClassifier {
+  const next: CategoryClassifier = {
+    examples: new Map(classifier.examples),
+    categoryCounts: new Map(classifier.categoryCounts),
+    tokenCounts: new Map(classifier.tokenCounts),
+    tokenTotals: new Map(classifier.tokenTotals),
+    vocabulary: new Map(classifier.vocabulary),
+  }
+  let changed = false
+
+  // Each category's token counts are copied once, the first time they change
+  const copiedCategories = new Set<string>()
+
+  const addCount = (counts: Map<string, number>, key: string, delta: number) => {
+    const count = (counts.get(key) || 0) + delta
+    if (count > 0) {
+      counts.set(key, count)
+    } else {
+      counts.delete(key)
+    }
+    return count
+  }
+
+  const train = (example: TrainedExample, delta: 1 | -1) => {
+    const { categoryId } = example
+    if (!copiedCategories.has(categoryId)) {
+      next.tokenCounts.set(categoryId, new Map(next.tokenCounts.get(categoryId)))
+      copiedCategories.add(categoryId)
+    }
+    const counts = next.tokenCounts.get(categoryId) as Map<string, number>
+
+    addCount(next.categoryCounts, categoryId, delta)
+    addCount(next.tokenTotals, categoryId, example.tokens.length * delta)
+    for (const token of example.tokens) {
+      const count = addCount(counts, token, delta)
+      // The vocabulary counts categories, so it changes when a category gains or loses a token
+      if ((delta === 1 && count === 1) || (delta === -1 && count === 0)) {
+        addCount(next.vocabulary, token, delta)
+      }
+    }
+    changed = true
+  }
+
+  const current = new Set<string>()
+
+  for (const transaction of transactions) {
+    if (!transaction.category_id) continue
+    current.add(transaction.id)
+
+    const previous = next.examples.get(transaction.id)
+    const signature = getSignature(transaction)
+    if (previous && previous.categoryId === transaction.category_id && previous.signature === signature) continue
+
+    if (previous) train(previous, -1)
+    const example = { categoryId: transaction.category_id, signature, tokens: tokenizeTransaction(transaction) }
+    train(example, 1)
+    next.examples.set(transaction.id, example)
+  }
+
+  for (const [id, example] of next.examples) {
+    if (current.has(id)) continue
+    train(example, -1)
+    next.examples.delete(id)
+  }
+
+  return changed ? next : classifier
+}
+
+/**
+ * The most likely categories, best first. Empty until the classifier has enough
+ * examples. Tokens the classifier has never seen are ignored rather than counted against every category.
+ */
+export function predictCategories(
+  classifier: CategoryClassifier,
+  transaction: TransactionWithDetails,
+  limit: number = MAX_CATEGORY_PREDICTIONS
+): CategoryPrediction[] {
+  const exampleCount = classifier.examples.size
+  if (exampleCount < MIN_TRAINING_EXAMPLES) return []
+
+  const tokens = tokenizeTransaction(transaction).filter(token => classifier.vocabulary.has(token))
+  const vocabularySize = classifier.vocabulary.size
+
+  // Log probabilities with add-one smoothing, so one unseen token can't rule a category out
+  const scores = [...classifier.categoryCounts.entries()].map(([categoryId, count]) => {
+    const counts = classifier.tokenCounts.get(categoryId)
+    const denominator = (classifier.tokenTotals.get(categoryId) || 0) + vocabularySize
+
+    let score = Math.log(count / exampleCount)
+    for (const token of tokens) {
+      score += Math.log(((counts?.get(token) || 0) + 1) / denominator)
+    }
+    return { categoryId, score }
+  })
+
+  if (scores.length === 0) return []
+
+  // Softmax turns the scores into shares that add up to 1
+  const best = Math.max(...scores.map(s => s.score))
+  const weights = scores.map(s => ({ categoryId: s.categoryId, weight: Math.exp(s.score - best) }))
+  const total = weights.reduce((sum, w) => sum + w.weight, 0)
+
+  return weights
+    .map(w => ({ categoryId: w.categoryId, confidence: w.weight / total }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit)
+}
@@ -0,0 +1,52 @@
+/**
+ * Category Paths
+ *
+ * Resolves "Parent:Child" style category names from imported files
+ * onto the household's two-level category tree.
+ */
+
+import type { Category } from '@/hooks/useCategories'
+
+export interface CategoryPath {
+  parent: string
+  child: string | null
+}
+
+/**
+ * Splits a path such as "Auto:Fuel" into parent and child.
+ * The app only supports one level of nesting, so deeper levels are folded into the child name.
+ */
+export function splitCategoryPath(path: string, separator: string = ':'): CategoryPath | null {
+  const parts = path.split(separator).map(p => p.trim()).filter(p => p.length > 0)
+  if (parts.length === 0) return null
+
+  return {
+    parent: parts[0],
+    child: parts.length > 1 ? parts.slice(1).join(' / ') : null,
+  }
+}
+
+/**
+ * Finds the category matching a path (case-insensitive).
+ * Returns null when the parent or child does not exist yet.
+ */
+export function findCategoryByPath(categories: Category[], path: CategoryPath): Category | null {
+  const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+  const parent = categories.find(c => !c.parent_category_id && sameName(c.name, path.parent))
+  if (!path.child) return parent || null
+  if (!parent) return null
+
+  return categories.find(c => c.parent_category_id === parent.id && sameName(c.name, path.child as string)) || null
+}
+
+/**
+ * Category names are unique per household, so a name can't be created again under
+ * another parent. Returns the category already using the name elsewhere in the tree,
+ * if any - the caller should report it rather than reuse it under the wrong parent.
+ */
+export function findCategoryNameConflict(categories: Category[], name: string, parentId: string | null): Category | null {
+  return categories.find(c =>
+    c.name.toLowerCase() === name.toLowerCase() && (c.parent_category_id || null) !== parentId
+  ) || null
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { tryParseAmount, parseDebitCreditAmount, applySignConvention, parseDate, inferDateFormat } from './csvParsing'
+
+describe('tryParseAmount', () => {
+  it.each([
+    ['12.50', 12.5],
+    ['-12.50', -12.5],
+    ['$1,234.56', 1234.56],
+    ['(45.00)', -45],
+    [' 7 ', 7],
+    ['0', 0],
+  ])('reads %s', (text, amount) => {
+    expect(tryParseAmount(text)).toBe(amount)
+  })
+
+  it.each([undefined, '', '   ', 'abc', '12.50 EUR', '(abc)'])('gives null for %j rather than zero', (text) => {
+    expect(tryParseAmount(text)).toBeNull()
+  })
+})
+
+describe('parseDebitCreditAmount', () => {
+  it('makes debits negative and credits positive for bank accounts', () => {
+    expect(parseDebitCreditAmount('25.00', '', 'Checking')).toBe(-25)
+    expect(parseDebitCreditAmount('', '100', 'Checking')).toBe(100)
+  })
+
+  it('makes debits positive for credit cards', () => {
+    expect(parseDebitCreditAmount('25.00', '', 'Credit Card')).toBe(25)
+    expect(parseDebitCreditAmount('', '10', 'Credit Card')).toBe(-10)
+  })
+
+  it('ignores a minus sign already on the debit', () => {
+    expect(parseDebitCreditAmount('-25.00', undefined, 'Checking')).toBe(-25)
+  })
+
+  it('nets a row with both cells filled', () => {
+    expect(parseDebitCreditAmount('10', '4', 'Checking')).toBe(-6)
+  })
+
+  it('gives null when both cells are empty or one is unreadable', () => {
+    expect(parseDebitCreditAmount('', ' ', 'Checking')).toBeNull()
+    expect(parseDebitCreditAmount('abc', '', 'Checking')).toBeNull()
+    expect(parseDebitCreditAmount('5', 'n/a', 'Checking')).toBeNull()
+  })
+})
+
+describe('applySignConvention', () => {
+  it('inverts only when asked to', () => {
+    expect(applySignConvention(12, 'as-is')).toBe(12)
+    expect(applySignConvention(12, 'invert')).toBe(-12)
+  })
+})
+
+describe('parseDate', () => {
+  it.each([
+    ['2024-01-05', 'YYYY-MM-DD', '2024-01-05'],
+    ['20240105', 'YYYYMMDD', '2024-01-05'],
+    ['01/05/2024', 'MM/DD/YYYY', '2024-01-05'],
+    ['05/01/2024', 'DD/MM/YYYY', '2024-01-05'],
+    ['05.01.24', 'DD/MM/YYYY', '2024-01-05'],
+    ['1/5/99', 'MM/DD/YYYY', '1999-01-05'],
+    ['2024-01-05 23:59', 'auto', '2024-01-05'],
+    ['2024-01-05T23:59:00-08:00', 'auto', '2024-01-05'],
+    ['12/31/2023', 'auto', '2023-12-31'],
+  ] as const)('reads %s as %s', (text, format, date) => {
+    expect(parseDate(text, format)).toBe(date)
+  })
+
+  it.each([
+    ['02/30/2024', 'MM/DD/YYYY'],
+    ['2023-02-29', 'YYYY-MM-DD'],
+    ['13/13/2024', 'auto'],
+    ['05/01/2024', 'YYYY-MM-DD'],
+    ['1/5/024', 'MM/DD/YYYY'],
+    ['', 'auto'],
+    ['yesterday', 'auto'],
+  ] as const)('rejects %j as %s', (text, format) => {
+    expect(parseDate(text, format)).toBeNull()
+  })
+})
+
+describe('inferDateFormat', () => {
+  it('picks the day-first order when a day is over 12', () => {
+    expect(inferDateFormat(['01/02/2024', '25/02/2024', ''])).toBe('DD/MM/YYYY')
+  })
+
+  it('prefers the US order when every value could be either', () => {
+    expect(inferDateFormat(['01/02/2024', '03/04/2024'])).toBe('MM/DD/YYYY')
+  })
+
+  it('recognizes ISO and compact dates', () => {
+    expect(inferDateFormat(['2024-01-05', '2024-01-06'])).toBe('YYYY-MM-DD')
+    expect(inferDateFormat(['20240105'])).toBe('YYYYMMDD')
+  })
+})
@@ -0,0 +1,328 @@
+/**
+ * CSV Parsing
+ *
+ * Reads bank CSV exports into header/row form and converts the mapped
+ * cells into dates and amounts. The settings here are what an import
+ * profile saves per account.
+ */
+
+import Papa from 'papaparse'
+
+export interface ParsedRow {
+  [key: string]: string
+}
+
+export type AmountMode = 'single' | 'split'
+
+export interface ColumnMapping {
+  date: string
+  description: string
+  amountMode: AmountMode // 'split' = separate debit and credit columns
+  amount: string
+  debit: string
+  credit: string
+  cardNumber: string
+}
+
+export type DateFormat = 'auto' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD' | 'YYYYMMDD'
+
+export type SignConvention = 'as-is' | 'invert'
+
+export interface CSVFileOptions {
+  headerRowOffset: number // Lines to skip before the header row (bank preambles)
+  delimiter: string // '' = auto-detect
+  encoding: string
+  sheetName: string // Spreadsheets only, '' = first sheet
+}
+
+export interface ParsedTable {
+  headers: string[]
+  rows: ParsedRow[]
+  leadingLines: string[][] // Raw first lines of the file, for picking the header row
+  sheetNames: string[] // Spreadsheets only
+}
+
+export const EMPTY_COLUMN_MAPPING: ColumnMapping = {
+  date: '',
+  description: '',
+  amountMode: 'single',
+  amount: '',
+  debit: '',
+  credit: '',
+  cardNumber: '',
+}
+
+export const DEFAULT_FILE_OPTIONS: CSVFileOptions = {
+  headerRowOffset: 0,
+  delimiter: '',
+  encoding: 'utf-8',
+  sheetName: '',
+}
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+  { value: 'YYYYMMDD', label: 'YYYYMMDD' },
+]
+
+export const DELIMITERS = [
+  { value: '', label: 'Auto-detect' },
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+]
+
+export const ENCODINGS = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western)' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'utf-16le', label: 'UTF-16' },
+]
+
+const LEADING_LINE_COUNT = 15
+
+/**
+ * Reads and parses a CSV file, skipping preamble lines before the header row
+ */
+export async function parseCSVFile(file: File, options: CSVFileOptions): Promise<ParsedTable> {
+  const buffer = await file.arrayBuffer()
+  const text = new TextDecoder(options.encoding || 'utf-8').decode(buffer)
+
+  const results = Papa.parse<string[]>(text, {
+    header: false,
+    skipEmptyLines: 'greedy',
+    delimiter: options.delimiter,
+  })
+
+  return { ...buildParsedTable(results.data, options.headerRowOffset), sheetNames: [] }
+}
+
+/**
+ * Turns raw lines into header/row form, using the line after the skipped preamble as headers
+ */
+export function buildParsedTable(allLines: string[][], headerRowOffset: number): Omit<ParsedTable, 'sheetNames'> {
+  const leadingLines = allLines.slice(0, LEADING_LINE_COUNT)
+  const lines = allLines.slice(headerRowOffset)
+  if (lines.length === 0) {
+    return { headers: [], rows: [], leadingLines }
+  }
+
+  // Blank or repeated header cells would collide as object keys
+  const seen = new Map<string, number>()
+  const headers = lines[0].map((cell, index) => {
+    const name = cell.trim() || `Column ${index + 1}`
+    const count = seen.get(name) || 0
+    seen.set(name, count + 1)
+    return count > 0 ? `${name} (${count + 1})` : name
+  })
+
+  const rows = lines.slice(1).map(line => {
+    const row: ParsedRow = {}
+    headers.forEach((header, index) => {
+      row[header] = line[index] ?? ''
+    })
+    return row
+  })
+
+  return { headers, rows, leadingLines }
+}
+
+/**
+ * Normalized header list used to recognize files from the same bank export
+ */
+export function createHeaderSignature(headers: string[]): string {
+  return headers.map(h => h.trim().toLowerCase()).join('|')
+}
+
+/**
+ * Guesses the column mapping from header names
+ */
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+  const lowerHeaders = headers.map(h => h.toLowerCase())
+
+  // Auto-detect date column
+  const dateCol = headers.find((_, i) =>
+    lowerHeaders[i].includes('date') || lowerHeaders[i].includes('posted')
+  )
+
+  // Auto-detect description column
+  const descCol = headers.find((_, i) =>
+    lowerHeaders[i].includes('description') ||
+    lowerHeaders[i].includes('memo') ||
+    lowerHeaders[i].includes('merchant') ||
+    lowerHeaders[i].includes('name')
+  )
+
+  // Auto-detect separate debit/credit columns ("Credit Card No." is not a credit column)
+  const debitCol = headers.find((_, i) =>
+    !lowerHeaders[i].includes('card') &&
+    (lowerHeaders[i].includes('debit') || lowerHeaders[i].includes('withdrawal'))
+  )
+  const creditCol = headers.find((_, i) =>
+    !lowerHeaders[i].includes('card') &&
+    (lowerHeaders[i].includes('credit') || lowerHeaders[i].includes('deposit'))
+  )
+  const splitAmounts = Boolean(debitCol && creditCol)
+
+  // Auto-detect amount column (only when there is no debit/credit pair)
+  const amountCol = splitAmounts ? undefined : headers.find((_, i) =>
+    !lowerHeaders[i].includes('card') && lowerHeaders[i].includes('amount')
+  ) || debitCol || creditCol
+
+  // Auto-detect card number column
+  const cardCol = headers.find((_, i) =>
+    lowerHeaders[i].includes('card') ||
+    lowerHeaders[i].includes('card no') ||
+    lowerHeaders[i].includes('cardno') ||
+    lowerHeaders[i].includes('card number')
+  )
+
+  return {
+    date: dateCol || '',
+    description: descCol || '',
+    amountMode: splitAmounts ? 'split' : 'single',
+    amount: amountCol || '',
+    debit: splitAmounts ? debitCol || '' : '',
+    credit: splitAmounts ? creditCol || '' : '',
+    cardNumber: cardCol || '',
+  }
+}
+
+/**
+ * Parses an amount cell, returning null for empty or unreadable values
+ * so callers can tell a bad cell from a real zero
+ */
+export function tryParseAmount(amountStr: string | undefined): number | null {
+  if (!amountStr || amountStr.trim() === '') return null
+
+  // Remove currency symbols, commas, and whitespace
+  const cleaned = amountStr.replace(/[$,\s]/g, '')
+
+  // Handle parentheses for negative numbers
+  if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
+    const value = Number(cleaned.slice(1, -1))
+    return isNaN(value) ? null : -value
+  }
+
+  const value = Number(cleaned)
+  return isNaN(value) ? null : value
+}
+
+/**
+ * Combines separate debit and credit cells into one signed amount.
+ * Follows the sign convention isExpense() expects: debits (money spent) are
+ * negative for bank accounts but positive for credit cards.
+ * Returns null when both cells are empty or either one is unreadable.
+ */
+export function parseDebitCreditAmount(
+  debitStr: string | undefined,
+  creditStr: string | undefined,
+  accountType: string | null | undefined
+): number | null {
+  const hasDebit = Boolean(debitStr?.trim())
+  const hasCredit = Boolean(creditStr?.trim())
+  if (!hasDebit && !hasCredit) return null
+
+  const debitValue = hasDebit ? tryParseAmount(debitStr) : 0
+  const creditValue = hasCredit ? tryParseAmount(creditStr) : 0
+  if (debitValue === null || creditValue === null) return null
+
+  // Banks differ on whether debit cells carry a minus sign, so only the magnitude counts
+  const debit = Math.abs(debitValue)
+  const credit = Math.abs(creditValue)
+
+  return accountType === 'Credit Card' ? debit - credit : credit - debit
+}
+
+export function applySignConvention(amount: number, signConvention: SignConvention): number {
+  return signConvention === 'invert' ? -amount : amount
+}
+
+const EXPLICIT_DATE_FORMATS: Exclude<DateFormat, 'auto'>[] = ['YYYY-MM-DD', 'YYYYMMDD', 'MM/DD/YYYY', 'DD/MM/YYYY']
+
+/**
+ * Converts a date cell to YYYY-MM-DD using the given format.
+ * Builds the string from the parsed parts rather than going through Date/toISOString,
+ * so the result never shifts by a day in negative-UTC-offset timezones.
+ * Returns null when the value is not a valid date in that format.
+ */
+export function parseDate(dateStr: string, format: DateFormat = 'auto'): string | null {
+  // Drop any time part ("2024-01-05 10:22", "2024-01-05T10:22:00Z")
+  const value = (dateStr || '').trim().split(/[\sT]/)[0]
+  if (!value) return null
+
+  if (format === 'auto') {
+    for (const candidate of EXPLICIT_DATE_FORMATS) {
+      const parsed = parseDate(value, candidate)
+      if (parsed) return parsed
+    }
+    return null
+  }
+
+  const parts = splitDateParts(value, format)
+  if (!parts) return null
+
+  const { month, day } = parts
+  let { year } = parts
+
+  if (year < 100) year += year < 50 ? 2000 : 1900
+
+  // Reject impossible dates like 02/30 by round-tripping through UTC
+  const check = new Date(Date.UTC(year, month - 1, day))
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+function splitDateParts(
+  value: string,
+  format: Exclude<DateFormat, 'auto'>
+): { year: number; month: number; day: number } | null {
+  if (format === 'YYYYMMDD') {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})$/)
+    if (!match) return null
+    return { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10) }
+  }
+
+  const match = value.match(/^(\d{1,4})[/\-.](\d{1,2})[/\-.](\d{1,4})$/)
+  if (!match) return null
+
+  const [first, second, third] = [match[1], match[2], match[3]].map(p => parseInt(p, 10))
+
+  if (format === 'YYYY-MM-DD') {
+    if (match[1].length !== 4) return null
+    return { year: first, month: second, day: third }
+  }
+
+  if (match[3].length !== 2 && match[3].length !== 4) return null
+
+  return format === 'DD/MM/YYYY'
+    ? { year: third, month: second, day: first }
+    : { year: third, month: first, day: second }
+}
+
+/**
+ * Infers the date format of a whole column.
+ * Picks the format that parses the most values; when MM/DD and DD/MM tie
+ * (every day is 12 or less) the US order wins.
+ */
+export function inferDateFormat(values: string[]): Exclude<DateFormat, 'auto'> {
+  const nonEmpty = values.filter(v => v && v.trim().length > 0)
+
+  let best: { format: Exclude<DateFormat, 'auto'>; count: number } = { format: 'MM/DD/YYYY', count: -1 }
+
+  // EXPLICIT_DATE_FORMATS lists MM/DD before DD/MM, so the US order wins ties
+  for (const format of EXPLICIT_DATE_FORMATS) {
+    const count = nonEmpty.filter(v => parseDate(v, format) !== null).length
+    if (count > best.count) {
+      best = { format, count }
+    }
+  }
+
+  return best.format
+}
@@ -147,8 +147,18 @@ export interface Database {
           id: string
           household_id: string
           pattern: string
+          match_type: 'contains' | 'equals' | 'starts-with' | 'ends-with' | 'wildcard' | 'regex'
           category_id: string
           member_id: string | null
+          priority: number
+          stop_processing: boolean
+          conditions: Json
+          condition_logic: 'all' | 'any'
+          set_vendor: string | null
+          add_tags: string[]
+          add_note: string | null
+          mark_transfer: boolean
+          mark_reimbursable: boolean
           created_at: string
           updated_at: string
         }
@@ -156,8 +166,18 @@ export interface Database {
           id?: string
           household_id: string
           pattern: string
+          match_type?: 'contains' | 'equals' | 'starts-with' | 'ends-with' | 'wildcard' | 'regex'
           category_id: string
           member_id?: string | null
+          priority?: number
+          stop_processing?: boolean
+          conditions?: Json
+          condition_logic?: 'all' | 'any'
+          set_vendor?: string | null
+          add_tags?: string[]
+          add_note?: string | null
+          mark_transfer?: boolean
+          mark_reimbursable?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -165,8 +185,18 @@ export interface Database {
           id?: string
           household_id?: string
           pattern?: string
+          match_type?: 'contains' | 'equals' | 'starts-with' | 'ends-with' | 'wildcard' | 'regex'
           category_id?: string
           member_id?: string | null
+          priority?: number
+          stop_processing?: boolean
+          conditions?: Json
+          condition_logic?: 'all' | 'any'
+          set_vendor?: string | null
+          add_tags?: string[]
+          add_note?: string | null
+          mark_transfer?: boolean
+          mark_reimbursable?: boolean
           created_at?: string
           updated_at?: string
         }
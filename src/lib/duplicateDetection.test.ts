@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { findDuplicatePairs, isLikelyDuplicate, createPairKey, daysBetween, shiftDate } from './duplicateDetection'
+
+const transaction = (id: string, date: string, description: string, amount = -12.5, account_id = 'acc1') =>
+  ({ id, account_id, date, description, amount })
+
+describe('isLikelyDuplicate', () => {
+  it('matches a pending and posted line of the same purchase', () => {
+    expect(isLikelyDuplicate(
+      transaction('a', '2024-01-05', 'PENDING POS STARBUCKS 1234'),
+      transaction('b', '2024-01-07', 'STARBUCKS 1234 SEATTLE WA'),
+    )).toBe(true)
+  })
+
+  it('needs the same account, the same cents and dates within the window', () => {
+    const base = transaction('a', '2024-01-05', 'STARBUCKS')
+    expect(isLikelyDuplicate(base, transaction('b', '2024-01-05', 'STARBUCKS', -12.5, 'acc2'))).toBe(false)
+    expect(isLikelyDuplicate(base, transaction('b', '2024-01-05', 'STARBUCKS', -12.51))).toBe(false)
+    expect(isLikelyDuplicate(base, transaction('b', '2024-01-09', 'STARBUCKS'))).toBe(false)
+    expect(isLikelyDuplicate(base, transaction('b', '2024-01-05', 'SHELL OIL'))).toBe(false)
+  })
+})
+
+describe('findDuplicatePairs', () => {
+  it('pairs transactions within each account and amount', () => {
+    const pairs = findDuplicatePairs([
+      transaction('1', '2024-01-05', 'AMAZON MKTPLACE'),
+      transaction('2', '2024-01-20', 'AMAZON MKTPLACE'),
+      transaction('3', '2024-01-06', 'AMAZON MKTPLACE PMTS'),
+      transaction('4', '2024-01-05', 'AMAZON MKTPLACE', -99),
+      transaction('5', '2024-01-05', 'AMAZON MKTPLACE', -12.5, 'acc2'),
+    ])
+
+    expect(pairs.map(p => [p.first.id, p.second.id, p.daysApart])).toEqual([['1', '3', 1]])
+  })
+
+  it('skips dismissed pairs', () => {
+    const transactions = [transaction('1', '2024-01-05', 'NETFLIX'), transaction('2', '2024-01-05', 'NETFLIX')]
+    expect(findDuplicatePairs(transactions, new Set([createPairKey('2', '1')]))).toEqual([])
+  })
+})
+
+describe('dates', () => {
+  it('counts days across a DST change and month ends', () => {
+    expect(daysBetween('2024-03-09', '2024-03-11')).toBe(2)
+    expect(shiftDate('2024-02-28', 2)).toBe('2024-03-01')
+    expect(shiftDate('2024-01-01', -1)).toBe('2023-12-31')
+  })
+})
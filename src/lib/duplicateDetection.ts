@@ -0,0 +1,167 @@
+/**
+ * Duplicate Detection
+ *
+ * Finds transactions that are probably the same purchase even though their
+ * hashes differ - e.g. a pending and a posted line from overlapping statements,
+ * or a bank that changed how it formats descriptions.
+ */
+
+import { extractVendor } from './vendorExtraction'
+
+export const DUPLICATE_DATE_WINDOW_DAYS = 3
+const MIN_VENDOR_SIMILARITY = 0.6
+
+// Words banks add or drop between the pending and posted versions of a line
+const NOISE_WORDS = new Set(['pending', 'pos', 'purchase', 'debit', 'credit', 'card', 'online', 'recurring', 'payment'])
+
+export interface DuplicateCandidate {
+  id?: string
+  account_id: string
+  date: string // YYYY-MM-DD
+  description: string
+  amount: number
+  vendor?: string | null
+}
+
+export interface DuplicatePair<T extends DuplicateCandidate> {
+  key: string
+  first: T
+  second: T
+  daysApart: number
+  similarity: number // 0-1
+}
+
+/**
+ * Vendor words used for comparison: lowercased, punctuation and bare numbers dropped
+ */
+function vendorTokens(description: string, vendor?: string | null): string[] {
+  return (vendor || extractVendor(description))
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !/^\d+$/.test(token) && !NOISE_WORDS.has(token))
+}
+
+/**
+ * How alike two vendors are (0-1). Banks often truncate or append to the same
+ * name, so a vendor whose words are all contained in the other counts as a match.
+ */
+export function vendorSimilarity(a: DuplicateCandidate, b: DuplicateCandidate): number {
+  const tokensA = new Set(vendorTokens(a.description, a.vendor))
+  const tokensB = new Set(vendorTokens(b.description, b.vendor))
+  if (tokensA.size === 0 || tokensB.size === 0) return 0
+
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length
+  const containment = shared / Math.min(tokensA.size, tokensB.size)
+  const jaccard = shared / (tokensA.size + tokensB.size - shared)
+
+  return Math.max(jaccard, containment === 1 ? 1 : containment * 0.8)
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+// Dates are compared in UTC so DST changes never shift a difference by a day
+function toUTC(date: string): number {
+  const [year, month, day] = date.split('-').map(p => parseInt(p, 10))
+  return Date.UTC(year, month - 1, day)
+}
+
+export function daysBetween(a: string, b: string): number {
+  return Math.round(Math.abs(toUTC(a) - toUTC(b)) / MS_PER_DAY)
+}
+
+/**
+ * Widens a YYYY-MM-DD date by a number of days (negative to go back)
+ */
+export function shiftDate(date: string, days: number): string {
+  return new Date(toUTC(date) + days * MS_PER_DAY).toISOString().split('T')[0]
+}
+
+/**
+ * Same account, same amount to the cent, dates within the window and a similar vendor
+ */
+export function isLikelyDuplicate(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  windowDays: number = DUPLICATE_DATE_WINDOW_DAYS
+): boolean {
+  return a.account_id === b.account_id &&
+    Math.round(a.amount * 100) === Math.round(b.amount * 100) &&
+    daysBetween(a.date, b.date) <= windowDays &&
+    vendorSimilarity(a, b) >= MIN_VENDOR_SIMILARITY
+}
+
+/**
+ * Returns the closest likely duplicate of a candidate among existing transactions
+ */
+export function findPossibleDuplicate<T extends DuplicateCandidate>(
+  candidate: DuplicateCandidate,
+  existing: T[],
+  windowDays: number = DUPLICATE_DATE_WINDOW_DAYS
+): T | null {
+  let best: { match: T; days: number } | null = null
+
+  for (const transaction of existing) {
+    if (!isLikelyDuplicate(candidate, transaction, windowDays)) continue
+
+    const days = daysBetween(candidate.date, transaction.date)
+    if (!best || days < best.days) {
+      best = { match: transaction, days }
+    }
+  }
+
+  return best?.match || null
+}
+
+/**
+ * Order-independent key for a pair of transaction ids (used to remember dismissals)
+ */
+export function createPairKey(idA: string, idB: string): string {
+  return idA < idB ? `${idA}|${idB}` : `${idB}|${idA}`
+}
+
+/**
+ * Finds likely duplicate pairs within existing transactions, skipping dismissed pairs
+ */
+export function findDuplicatePairs<T extends DuplicateCandidate & { id: string }>(
+  transactions: T[],
+  dismissedKeys: Set<string> = new Set(),
+  windowDays: number = DUPLICATE_DATE_WINDOW_DAYS
+): DuplicatePair<T>[] {
+  // Only transactions with the same account and amount can match, so compare within those groups
+  const groups = new Map<string, T[]>()
+  transactions.forEach(t => {
+    const key = `${t.account_id}|${Math.round(t.amount * 100)}`
+    const group = groups.get(key)
+    if (group) {
+      group.push(t)
+    } else {
+      groups.set(key, [t])
+    }
+  })
+
+  const pairs: DuplicatePair<T>[] = []
+
+  groups.forEach(group => {
+    if (group.length < 2) return
+
+    const sorted = group.sort((a, b) => a.date.localeCompare(b.date))
+
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const daysApart = daysBetween(sorted[i].date, sorted[j].date)
+        if (daysApart > windowDays) break
+
+        const key = createPairKey(sorted[i].id, sorted[j].id)
+        if (dismissedKeys.has(key)) continue
+
+        const similarity = vendorSimilarity(sorted[i], sorted[j])
+        if (similarity < MIN_VENDOR_SIMILARITY) continue
+
+        pairs.push({ key, first: sorted[i], second: sorted[j], daysApart, similarity })
+      }
+    }
+  })
+
+  return pairs.sort((a, b) => b.first.date.localeCompare(a.first.date))
+}
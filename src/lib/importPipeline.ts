@@ -0,0 +1,338 @@
+/**
+ * Import Pipeline
+ *
+ * The steps every statement import goes through, whatever the file format:
+ * parse the file, turn its rows into one common shape, then hash and
+ * categorize them. Shared by the single-file and multi-file import screens.
+ *
+ * Rules are evaluated by the database (see evaluateRulesOnServer): the screens
+ * look up getImportRuleInputs and hand the results to finalizeImportRows.
+ */
+
+import type { Account } from '@/hooks/useAccounts'
+import type { AccountCard } from '@/hooks/useAccountCards'
+import type { ImportProfile } from '@/hooks/useImportProfiles'
+import { parseOFX } from './ofxParser'
+import { parseQIF } from './qifParser'
+import { parseCAMT } from './camtParser'
+import { parseMT940 } from './mt940Parser'
+import { parseSpreadsheetFile } from './spreadsheetParsing'
+import { createTransactionHash } from './vendorExtraction'
+import { findCardForNumber } from './importRouting'
+import type { RuleEvaluation, RuleMatchInput } from './ruleMatching'
+import { findPossibleDuplicate, shiftDate, DUPLICATE_DATE_WINDOW_DAYS, type DuplicateCandidate } from './duplicateDetection'
+import {
+  createStatementHash,
+  detectStatementFormat,
+  isTabularFormat,
+  type StatementFormat,
+  type StatementTransaction,
+} from './statementImport'
+import type { ImportRow, ImportRowEdit } from './importValidation'
+import {
+  parseCSVFile,
+  createHeaderSignature,
+  tryParseAmount,
+  parseDebitCreditAmount,
+  parseDate,
+  inferDateFormat,
+  applySignConvention,
+  type ParsedTable,
+  type ParsedRow,
+  type ColumnMapping,
+  type CSVFileOptions,
+  type DateFormat,
+  type SignConvention,
+} from './csvParsing'
+
+export type SourceImportRow = Omit<ImportRow, 'accountId' | 'categoryId' | 'memberId' | 'ruleActions' | 'matchedRuleIds' | 'hash' | 'ruleMatched'>
+
+/**
+ * CSV and spreadsheets both come out as headers + rows and share the column mapping
+ */
+export function parseTableFile(file: File, options: CSVFileOptions): Promise<ParsedTable> {
+  return detectStatementFormat(file.name) === 'xlsx'
+    ? parseSpreadsheetFile(file, options)
+    : parseCSVFile(file, options)
+}
+
+export async function parseStatementFile(file: File, format: StatementFormat): Promise<StatementTransaction[]> {
+  const content = await file.text()
+
+  switch (format) {
+    case 'qif':
+      return parseQIF(content)
+    case 'camt':
+      return parseCAMT(content)
+    case 'mt940':
+      return parseMT940(content)
+    default:
+      return parseOFX(content)
+  }
+}
+
+export function getProfileFileOptions(profile: ImportProfile): CSVFileOptions {
+  return {
+    headerRowOffset: profile.header_row_offset,
+    delimiter: profile.delimiter,
+    encoding: profile.encoding,
+    sheetName: profile.sheet_name || '',
+  }
+}
+
+/**
+ * Tries each saved profile's file options and returns the first whose header layout matches.
+ * Profiles for the preferred account win, then the most recently used.
+ */
+export async function findMatchingProfile(
+  file: File,
+  profiles: ImportProfile[],
+  preferredAccountId?: string
+): Promise<{ profile: ImportProfile; parsed: ParsedTable } | null> {
+  const candidates = [...profiles].sort((a, b) =>
+    Number(b.account_id === preferredAccountId) - Number(a.account_id === preferredAccountId)
+  )
+  const parsedByOptions = new Map<string, ParsedTable>()
+
+  for (const profile of candidates) {
+    const options = getProfileFileOptions(profile)
+    const key = JSON.stringify(options)
+
+    let parsed = parsedByOptions.get(key)
+    if (!parsed) {
+      parsed = await parseTableFile(file, options)
+      parsedByOptions.set(key, parsed)
+    }
+
+    if (parsed.rows.length > 0 && createHeaderSignature(parsed.headers) === profile.header_signature) {
+      return { profile, parsed }
+    }
+  }
+
+  return null
+}
+
+export function getAccountSignConvention(account: Account | undefined): SignConvention {
+  return account?.invert_amounts ? 'invert' : 'as-is'
+}
+
+/**
+ * Resolves 'auto' by inferring one format for the whole date column,
+ * so 03/04 and 13/04 in the same file agree
+ */
+export function getEffectiveDateFormat(rows: ParsedRow[], mapping: ColumnMapping, dateFormat: DateFormat): Exclude<DateFormat, 'auto'> {
+  if (dateFormat !== 'auto') return dateFormat
+  return inferDateFormat(mapping.date ? rows.map(row => row[mapping.date]) : [])
+}
+
+export function isMappingComplete(mapping: ColumnMapping): boolean {
+  const amountMapped = mapping.amountMode === 'split'
+    ? Boolean(mapping.debit || mapping.credit)
+    : Boolean(mapping.amount)
+
+  return Boolean(mapping.date && mapping.description && amountMapped)
+}
+
+/**
+ * Converts mapped CSV/spreadsheet rows into import rows.
+ * Debit/credit columns are combined using the account type's sign convention.
+ */
+export function buildTableRows(
+  rows: ParsedRow[],
+  mapping: ColumnMapping,
+  dateFormat: Exclude<DateFormat, 'auto'>,
+  signConvention: SignConvention,
+  accountType: string | null | undefined
+): SourceImportRow[] {
+  return rows.map((row, index) => {
+    const amount = mapping.amountMode === 'split'
+      ? parseDebitCreditAmount(
+          mapping.debit ? row[mapping.debit] : '',
+          mapping.credit ? row[mapping.credit] : '',
+          accountType
+        )
+      : tryParseAmount(row[mapping.amount])
+
+    const amountText = mapping.amountMode === 'split'
+      ? [row[mapping.debit], row[mapping.credit]].filter(v => v?.trim()).join(' / ')
+      : row[mapping.amount] || ''
+
+    return {
+      rowNumber: index + 1,
+      dateText: row[mapping.date] || '',
+      date: parseDate(row[mapping.date], dateFormat),
+      amountText,
+      amount: amount === null ? null : applySignConvention(amount, signConvention),
+      description: (row[mapping.description] || '').trim(),
+      cardNumber: mapping.cardNumber ? row[mapping.cardNumber] : undefined,
+      source: row,
+    }
+  })
+}
+
+/**
+ * Converts parsed OFX/QIF/CAMT/MT940 transactions into import rows.
+ * Statement files are signed per their spec; only the account's invert setting applies.
+ */
+export function buildStatementRows(rows: StatementTransaction[], signConvention: SignConvention): SourceImportRow[] {
+  return rows.map((row, index) => {
+    // Unreadable values stay null so validation reports the row instead of the whole file failing
+    const amount = row.amount === null ? null : applySignConvention(row.amount, signConvention)
+    return {
+      rowNumber: index + 1,
+      dateText: row.date ?? row.dateText ?? '',
+      date: row.date,
+      amountText: amount === null ? row.amountText ?? '' : String(amount),
+      amount,
+      description: row.description,
+      externalId: row.externalId,
+      fileCategory: row.category,
+      splitIndex: row.splitIndex,
+      valueDate: row.valueDate,
+      counterparty: row.counterparty,
+      remittanceInfo: row.remittanceInfo,
+      source: {
+        Date: row.date ?? row.dateText ?? '',
+        'Value Date': row.valueDate || '',
+        Description: row.description,
+        Counterparty: row.counterparty || '',
+        'Remittance Info': row.remittanceInfo || '',
+        Amount: row.amount === null ? row.amountText ?? '' : String(row.amount),
+        Category: row.category || '',
+        Reference: row.externalId || '',
+      },
+    }
+  })
+}
+
+export function applyRowEdit<T extends SourceImportRow>(
+  row: T,
+  edit: ImportRowEdit | undefined,
+  dateFormat: Exclude<DateFormat, 'auto'>
+): T {
+  if (!edit) return row
+
+  return {
+    ...row,
+    ...(edit.date !== undefined && {
+      dateText: edit.date,
+      // Fixed dates may be typed in the file's format or as YYYY-MM-DD
+      date: parseDate(edit.date, dateFormat) || parseDate(edit.date, 'YYYY-MM-DD'),
+    }),
+    ...(edit.amount !== undefined && { amountText: edit.amount, amount: tryParseAmount(edit.amount) }),
+    ...(edit.description !== undefined && { description: edit.description.trim() }),
+  }
+}
+
+// Rule results by input, so they survive rows being edited or re-routed
+export type ImportRuleEvaluations = Map<string, RuleEvaluation>
+
+const NO_RULE_MATCH: RuleEvaluation = {
+  categoryId: null,
+  memberId: null,
+  vendor: null,
+  tags: [],
+  note: null,
+  isTransfer: false,
+  isReimbursable: false,
+  matchedRuleIds: [],
+}
+
+export function getRuleInputKey(input: RuleMatchInput): string {
+  return JSON.stringify([input.description, input.cardNumber || null, input.amount ?? null, input.date || null, input.accountId || null])
+}
+
+/**
+ * What the rules are evaluated against for each row, after card routing
+ */
+export function getImportRuleInputs(rows: SourceImportRow[], accountId: string, cards: AccountCard[] = []): RuleMatchInput[] {
+  return rows.map(row => ({
+    description: row.description,
+    cardNumber: row.cardNumber,
+    amount: row.amount,
+    date: row.date,
+    accountId: findCardForNumber(row.cardNumber, cards)?.account_id || accountId,
+  }))
+}
+
+/**
+ * Applies rule results and computes each row's dedupe hash for the target account.
+ * Rows whose card number is mapped to another account (e.g. an authorized user's
+ * card on a family statement) move to that account and pick up the card holder.
+ * Rows without a rule result yet are left uncategorized.
+ */
+export function finalizeImportRows(
+  rows: SourceImportRow[],
+  accountId: string,
+  format: StatementFormat,
+  context: { evaluations: ImportRuleEvaluations; cards?: AccountCard[] }
+): ImportRow[] {
+  const { evaluations, cards = [] } = context
+  const inputs = getImportRuleInputs(rows, accountId, cards)
+
+  return rows.map((row, index) => {
+    const card = findCardForNumber(row.cardNumber, cards)
+    const rowAccountId = card?.account_id || accountId
+
+    const { categoryId, memberId, matchedRuleIds, ...ruleActions } =
+      evaluations.get(getRuleInputKey(inputs[index])) || NO_RULE_MATCH
+
+    let hash: string | null = null
+    if (row.date && row.amount !== null) {
+      hash = isTabularFormat(format)
+        ? createTransactionHash(row.date, row.description, row.amount, rowAccountId)
+        // Prefers the bank's own id (e.g. FITID) - it survives description changes
+        : createStatementHash(format, { ...row, date: row.date, amount: row.amount }, rowAccountId)
+    }
+
+    return {
+      ...row,
+      accountId: rowAccountId,
+      categoryId,
+      memberId: memberId || card?.member_id || null,
+      ruleActions,
+      matchedRuleIds,
+      hash,
+      ruleMatched: matchedRuleIds.length > 0,
+    }
+  })
+}
+
+/**
+ * Every account the rows will land in
+ */
+export function getImportAccountIds(rows: ImportRow[]): string[] {
+  return [...new Set(rows.map(r => r.accountId))]
+}
+
+/**
+ * Date range to fetch existing transactions for, widened by the fuzzy duplicate window
+ */
+export function getDuplicateLookupRange(rows: ImportRow[]): { fromDate: string; toDate: string } | null {
+  const dates = rows.map(r => r.date).filter(Boolean).sort() as string[]
+  if (dates.length === 0) return null
+
+  return {
+    fromDate: shiftDate(dates[0], -DUPLICATE_DATE_WINDOW_DAYS),
+    toDate: shiftDate(dates[dates.length - 1], DUPLICATE_DATE_WINDOW_DAYS),
+  }
+}
+
+/**
+ * Flags rows that look like a transaction already in the account but didn't match its hash
+ */
+export function markPossibleDuplicates(
+  rows: ImportRow[],
+  existingHashes: Set<string>,
+  nearby: DuplicateCandidate[]
+): ImportRow[] {
+  return rows.map(row => {
+    if (!row.date || row.amount === null || (row.hash && existingHashes.has(row.hash))) return row
+
+    const match = findPossibleDuplicate(
+      { account_id: row.accountId, date: row.date, description: row.description, amount: row.amount },
+      nearby
+    )
+    return match ? { ...row, possibleDuplicateOf: { date: match.date, description: match.description } } : row
+  })
+}
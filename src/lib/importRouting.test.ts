@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { matchesFilePattern, getCardSuffix, getFileCardSuffix, routeFileToAccount } from './importRouting'
+import type { Account } from '@/hooks/useAccounts'
+import type { AccountCard } from '@/hooks/useAccountCards'
+
+const account = (id: string, name: string, import_file_pattern: string | null = null) =>
+  ({ id, name, import_file_pattern }) as Account
+
+const card = (account_id: string, card_suffix: string) => ({ account_id, card_suffix }) as AccountCard
+
+describe('matchesFilePattern', () => {
+  it('matches wildcards against the whole name, case-insensitively', () => {
+    expect(matchesFilePattern('Chase_Activity_2024.CSV', 'chase_*.csv')).toBe(true)
+    expect(matchesFilePattern('statement-01.ofx', 'statement-??.ofx')).toBe(true)
+    expect(matchesFilePattern('old-chase_1.csv', 'chase_*.csv')).toBe(false)
+  })
+
+  it('matches plain text anywhere and treats regex characters literally', () => {
+    expect(matchesFilePattern('export (amex).csv', '(amex)')).toBe(true)
+    expect(matchesFilePattern('exportXcsv', 'export.csv*')).toBe(false)
+    expect(matchesFilePattern('anything.csv', '  ')).toBe(false)
+  })
+})
+
+describe('card suffixes', () => {
+  it('takes the last four digits', () => {
+    expect(getCardSuffix('XXXX-XXXX-XXXX-1234')).toBe('1234')
+    expect(getCardSuffix('12')).toBeNull()
+    expect(getCardSuffix(undefined)).toBeNull()
+  })
+
+  it('only gives a file suffix when every row uses the same card', () => {
+    expect(getFileCardSuffix(['**1234', '1234', undefined])).toBe('1234')
+    expect(getFileCardSuffix(['1234', '5678'])).toBeNull()
+  })
+})
+
+describe('routeFileToAccount', () => {
+  const accounts = [account('checking', 'Checking', 'checking*.csv'), account('visa', 'Visa 1234'), account('amex', 'Amex')]
+
+  it('prefers the saved profile, then the file name pattern', () => {
+    expect(routeFileToAccount('checking-jan.csv', accounts, { profileAccountId: 'amex' })).toEqual({ accountId: 'amex', reason: 'profile' })
+    expect(routeFileToAccount('checking-jan.csv', accounts, { profileAccountId: 'deleted' })).toEqual({ accountId: 'checking', reason: 'file-name' })
+  })
+
+  it('sends a shared statement to the account most of its cards belong to', () => {
+    const route = routeFileToAccount('cards.csv', accounts, {
+      cardNumbers: ['9999', '9999', '1111'],
+      cards: [card('amex', '9999'), card('visa', '1111')],
+    })
+    expect(route).toEqual({ accountId: 'amex', reason: 'card-number' })
+  })
+
+  it('falls back to the card digits in an account name', () => {
+    expect(routeFileToAccount('export.csv', accounts, { cardNumbers: ['XXXX1234'] })).toEqual({ accountId: 'visa', reason: 'card-number' })
+    expect(routeFileToAccount('export.csv', accounts, { cardNumbers: ['XXXX12345'] })).toBeNull()
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Import Routing
+ *
+ * Picks the account a dropped statement file belongs to when several files
+ * are imported at once: a matching saved profile first, then the account's
+ * file name pattern, then the card number column.
+ */
+
+import type { Account } from '@/hooks/useAccounts'
+import type { AccountCard } from '@/hooks/useAccountCards'
+
+export type RouteReason = 'profile' | 'file-name' | 'card-number'
+
+export interface FileRoute {
+  accountId: string
+  reason: RouteReason
+}
+
+export const ROUTE_REASON_LABELS: Record<RouteReason, string> = {
+  'profile': 'Saved import profile',
+  'file-name': 'File name pattern',
+  'card-number': 'Card number',
+}
+
+/**
+ * Matches a file name against a pattern where * is any text and ? is one character.
+ * A pattern without wildcards matches anywhere in the name. Case-insensitive.
+ */
+export function matchesFilePattern(fileName: string, pattern: string): boolean {
+  const trimmed = pattern.trim()
+  if (!trimmed) return false
+
+  if (!/[*?]/.test(trimmed)) {
+    return fileName.toLowerCase().includes(trimmed.toLowerCase())
+  }
+
+  const regex = trimmed
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.')
+
+  return new RegExp(`^${regex}$`, 'i').test(fileName)
+}
+
+/**
+ * Last four digits of a card number cell ("XXXX-XXXX-XXXX-1234" -> "1234")
+ */
+export function getCardSuffix(cardNumber: string | undefined): string | null {
+  const digits = (cardNumber || '').replace(/\D/g, '')
+  return digits.length >= 4 ? digits.slice(-4) : null
+}
+
+/**
+ * The single card suffix used throughout a file, or null when there are none or several
+ */
+export function getFileCardSuffix(cardNumbers: (string | undefined)[]): string | null {
+  const suffixes = new Set(cardNumbers.map(getCardSuffix).filter(Boolean))
+  return suffixes.size === 1 ? [...suffixes][0] : null
+}
+
+/**
+ * The card mapped in account settings for a card number cell, matched on its last four digits
+ */
+export function findCardForNumber(cardNumber: string | undefined, cards: AccountCard[]): AccountCard | null {
+  const suffix = getCardSuffix(cardNumber)
+  return suffix ? cards.find(c => c.card_suffix === suffix) || null : null
+}
+
+export function routeFileToAccount(
+  fileName: string,
+  accounts: Account[],
+  options: { profileAccountId?: string | null; cardNumbers?: (string | undefined)[]; cards?: AccountCard[] } = {}
+): FileRoute | null {
+  if (options.profileAccountId && accounts.some(a => a.id === options.profileAccountId)) {
+    return { accountId: options.profileAccountId, reason: 'profile' }
+  }
+
+  const byPattern = accounts.find(a => a.import_file_pattern && matchesFilePattern(fileName, a.import_file_pattern))
+  if (byPattern) {
+    return { accountId: byPattern.id, reason: 'file-name' }
+  }
+
+  // Mapped cards first; a shared statement goes to the account most of its rows belong to
+  if (options.cardNumbers && options.cards?.length) {
+    const rowCounts = new Map<string, number>()
+    for (const cardNumber of options.cardNumbers) {
+      const card = findCardForNumber(cardNumber, options.cards)
+      if (card) rowCounts.set(card.account_id, (rowCounts.get(card.account_id) || 0) + 1)
+    }
+
+    const [top] = [...rowCounts.entries()].sort((a, b) => b[1] - a[1])
+    if (top && accounts.some(a => a.id === top[0])) {
+      return { accountId: top[0], reason: 'card-number' }
+    }
+  }
+
+  // Otherwise account names usually carry the last four digits, e.g. "Chase Sapphire 1234"
+  const suffix = options.cardNumbers ? getFileCardSuffix(options.cardNumbers) : null
+  if (suffix) {
+    const byCard = accounts.find(a => new RegExp(`(^|\\D)${suffix}(\\D|$)`).test(a.name))
+    if (byCard) {
+      return { accountId: byCard.id, reason: 'card-number' }
+    }
+  }
+
+  return null
+}
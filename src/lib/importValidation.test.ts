@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { validateImportRows, type ImportRowCheck } from './importValidation'
+import { buildStatementRows } from './importPipeline'
+import { parseOFX } from './ofxParser'
+
+const row = (overrides: Partial<ImportRowCheck> = {}): ImportRowCheck => ({
+  dateText: '2024-01-05',
+  date: '2024-01-05',
+  amountText: '-12.50',
+  amount: -12.5,
+  description: 'Coffee',
+  hash: null,
+  ruleMatched: false,
+  ...overrides,
+})
+
+const TODAY = '2024-06-01'
+
+describe('validateImportRows', () => {
+  it('accepts a complete row', () => {
+    const [result] = validateImportRows([row()], new Set(), TODAY)
+    expect(result).toMatchObject({ status: 'ok', issues: [] })
+  })
+
+  it('reports unreadable and missing values instead of guessing them', () => {
+    const results = validateImportRows([
+      row({ amount: null, amountText: 'abc' }),
+      row({ amount: null, amountText: '' }),
+      row({ date: null, dateText: '31/31/2024' }),
+      row({ date: null, dateText: ' ' }),
+      row({ description: '  ' }),
+    ], new Set(), TODAY)
+
+    expect(results.map(r => [r.status, r.issues])).toEqual([
+      ['error', ['Unreadable amount "abc"']],
+      ['error', ['Missing amount']],
+      ['error', ['Unreadable date "31/31/2024"']],
+      ['error', ['Missing date']],
+      ['error', ['Missing description']],
+    ])
+  })
+
+  it('warns about zero amounts and future dates', () => {
+    const results = validateImportRows([row({ amount: 0, amountText: '0' }), row({ date: '2024-07-01' })], new Set(), TODAY)
+    expect(results.map(r => [r.status, r.issues])).toEqual([
+      ['warning', ['Amount is zero']],
+      ['warning', ['Date is in the future']],
+    ])
+  })
+
+  it('marks rows already imported or repeated in the file as duplicates', () => {
+    const results = validateImportRows([row({ hash: 'a' }), row({ hash: 'b' }), row({ hash: 'b' })], new Set(['a']), TODAY)
+    expect(results.map(r => r.status)).toEqual(['duplicate', 'ok', 'duplicate'])
+  })
+})
+
+describe('statement rows', () => {
+  it('turn an ambiguous OFX amount into an error on that row only', () => {
+    const transactions = parseOFX(`<OFX>
+<STMTTRN><DTPOSTED>20240105<TRNAMT>1,000<NAME>Ambiguous</STMTTRN>
+<STMTTRN><DTPOSTED>20240106<TRNAMT>-5.00<NAME>Fine</STMTTRN>
+</OFX>`)
+
+    const rows = buildStatementRows(transactions, 'invert').map(r => ({ ...r, hash: null, ruleMatched: false }))
+    const results = validateImportRows(rows, new Set(), TODAY)
+
+    expect(results.map(r => [r.description, r.status, r.amount, r.issues])).toEqual([
+      ['Ambiguous', 'error', null, ['Unreadable amount "1,000"']],
+      ['Fine', 'ok', 5, []],
+    ])
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Import Validation
+ *
+ * Checks each parsed statement row before import and assigns it a status,
+ * so bad rows can be fixed or excluded instead of failing the whole file.
+ */
+
+import Papa from 'papaparse'
+import type { RuleEvaluation } from './ruleMatching'
+
+export type ImportRowStatus = 'ok' | 'warning' | 'error' | 'duplicate' | 'possible-duplicate' | 'rule-matched'
+
+export interface ImportRowCheck {
+  dateText: string
+  date: string | null // YYYY-MM-DD, null when unreadable
+  amountText: string
+  amount: number | null // null when unreadable
+  description: string
+  hash: string | null
+  ruleMatched: boolean
+  possibleDuplicateOf?: { date: string; description: string } | null // Fuzzy match already in the account
+}
+
+export interface ImportRowResult {
+  status: ImportRowStatus
+  issues: string[]
+}
+
+/**
+ * A parsed row on its way into the database, whatever file format it came from
+ */
+export interface ImportRow extends ImportRowCheck {
+  rowNumber: number // 1-based position among the file's data rows
+  cardNumber?: string
+  externalId?: string | null
+  fileCategory?: string | null // Category path carried by the file (QIF)
+  splitIndex?: number
+  valueDate?: string | null
+  counterparty?: string | null
+  remittanceInfo?: string | null
+  accountId: string // The import's account, or the one a mapped card number routes the row to
+  categoryId: string | null // From rules
+  memberId: string | null // From rules, else the mapped card's holder
+  ruleActions: RuleActionResult // Other rule actions, applied on import
+  matchedRuleIds: string[] // Recorded as rule hits once the row is imported
+  source: Record<string, string> // Original cells, written back out in the rejected-rows CSV
+}
+
+export type RuleActionResult = Pick<RuleEvaluation, 'vendor' | 'tags' | 'note' | 'isTransfer' | 'isReimbursable'>
+
+export type ValidatedImportRow = ImportRow & ImportRowResult
+
+export interface ImportRowEdit {
+  date?: string
+  description?: string
+  amount?: string
+}
+
+export const IMPORT_STATUS_LABELS: Record<ImportRowStatus, string> = {
+  'ok': 'OK',
+  'warning': 'Warning',
+  'error': 'Error',
+  'duplicate': 'Duplicate',
+  'possible-duplicate': 'Possible duplicate',
+  'rule-matched': 'Rule matched',
+}
+
+export const IMPORT_STATUS_STYLES: Record<ImportRowStatus, string> = {
+  'ok': 'bg-green-100 text-green-800',
+  'rule-matched': 'bg-blue-100 text-blue-800',
+  'warning': 'bg-yellow-100 text-yellow-800',
+  'possible-duplicate': 'bg-orange-100 text-orange-800',
+  'error': 'bg-red-100 text-red-800',
+  'duplicate': 'bg-gray-200 text-gray-700',
+}
+
+// Order statuses are listed in summaries and filters
+export const IMPORT_STATUS_ORDER: ImportRowStatus[] = ['ok', 'rule-matched', 'warning', 'possible-duplicate', 'error', 'duplicate']
+
+const OLDEST_REASONABLE_YEAR = 1970
+
+/**
+ * Validates rows in file order. A row is a duplicate when its hash is already
+ * in the account (existingHashes) or appeared earlier in the file; the first
+ * occurrence within the file stays importable.
+ */
+export function validateImportRows<T extends ImportRowCheck>(
+  rows: T[],
+  existingHashes: Set<string> = new Set(),
+  today: string = new Date().toLocaleDateString('en-CA') // en-CA formats as YYYY-MM-DD in local time
+): (T & ImportRowResult)[] {
+  const seenHashes = new Set<string>()
+
+  return rows.map(row => {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    if (!row.date) {
+      errors.push(row.dateText.trim() ? `Unreadable date "${row.dateText}"` : 'Missing date')
+    } else if (row.date > today) {
+      warnings.push('Date is in the future')
+    } else if (parseInt(row.date.slice(0, 4), 10) < OLDEST_REASONABLE_YEAR) {
+      warnings.push(`Date is before ${OLDEST_REASONABLE_YEAR}`)
+    }
+
+    if (row.amount === null) {
+      errors.push(row.amountText.trim() ? `Unreadable amount "${row.amountText}"` : 'Missing amount')
+    } else if (row.amount === 0) {
+      warnings.push('Amount is zero')
+    }
+
+    if (!row.description.trim()) {
+      errors.push('Missing description')
+    }
+
+    if (errors.length > 0) {
+      return { ...row, status: 'error' as const, issues: [...errors, ...warnings] }
+    }
+
+    if (row.hash) {
+      if (existingHashes.has(row.hash)) {
+        return { ...row, status: 'duplicate' as const, issues: ['Already imported into this account'] }
+      }
+      if (seenHashes.has(row.hash)) {
+        return { ...row, status: 'duplicate' as const, issues: ['Same date, description and amount as an earlier row in this file'] }
+      }
+      seenHashes.add(row.hash)
+    }
+
+    // Still importable - the user decides whether it is really the same transaction
+    if (row.possibleDuplicateOf) {
+      const { date, description } = row.possibleDuplicateOf
+      return { ...row, status: 'possible-duplicate' as const, issues: [`Looks like "${description}" on ${date}`, ...warnings] }
+    }
+
+    if (warnings.length > 0) {
+      return { ...row, status: 'warning' as const, issues: warnings }
+    }
+
+    return { ...row, status: row.ruleMatched ? 'rule-matched' as const : 'ok' as const, issues: [] }
+  })
+}
+
+/**
+ * Whether a row can be imported (it may still be excluded by the user)
+ */
+export function isImportable(status: ImportRowStatus): boolean {
+  return status !== 'error' && status !== 'duplicate'
+}
+
+/**
+ * Builds a CSV of rejected rows: the original cells plus status and reason columns
+ */
+export function createRejectedRowsCSV(
+  rows: { source: Record<string, string>; status: ImportRowStatus | 'excluded'; issues: string[] }[]
+): string {
+  return Papa.unparse(rows.map(row => ({
+    ...row.source,
+    'Import Status': row.status === 'excluded' ? 'Excluded' : IMPORT_STATUS_LABELS[row.status],
+    'Reason': row.status === 'excluded' ? 'Excluded manually' : row.issues.join('; '),
+  })))
+}
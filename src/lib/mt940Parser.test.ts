@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest'
+import { parseMT940 } from './mt940Parser'
+
+const statement = (lines: string[]) => [
+  '{1:F01BANKDEFFAXXX0000000000}{2:I940BANKDEFFXXXXN}{4:',
+  ':20:STATEMENT1',
+  ':25:12345678/0001234567',
+  ':28C:1/1',
+  ':60F:C240101EUR1000,00',
+  ...lines,
+  ':62F:C240131EUR900,00',
+  '-}',
+].join('\r\n')
+
+describe('parseMT940', () => {
+  it('reads statement lines with German ?-subfields', () => {
+    const rows = parseMT940(statement([
+      ':61:2401050105D12,50NTRFNONREF//BANKREF1',
+      ':86:106?00KARTENZAHLUNG?20EREF+123?21SVWZ+Groceries Jan',
+      'uary?32SUPERMARKET GMBH',
+    ]))
+
+    expect(rows).toEqual([{
+      date: '2024-01-05',
+      description: 'SUPERMARKET GMBH - Groceries January',
+      amount: -12.5,
+      externalId: 'BANKREF1',
+      valueDate: null,
+      counterparty: 'SUPERMARKET GMBH',
+      remittanceInfo: 'Groceries January',
+    }])
+  })
+
+  it('reads the /KEYWORD/ layout', () => {
+    const [row] = parseMT940(statement([
+      ':61:240110C2000,NTRFSALARY',
+      ':86:/NAME/ACME BV/REMI/USTD//Salary January/',
+    ]))
+
+    expect(row).toMatchObject({
+      date: '2024-01-10',
+      amount: 2000,
+      counterparty: 'ACME BV',
+      remittanceInfo: 'Salary January',
+      // The customer reference repeats every month, so it is not used as an id
+      externalId: null,
+    })
+  })
+
+  it('keeps free-text information as is', () => {
+    const [row] = parseMT940(statement([':61:240110D5,00NMSCNONREF', ':86:Cash withdrawal', 'Main Street']))
+    expect(row).toMatchObject({ description: 'Cash withdrawal Main Street', counterparty: null })
+  })
+
+  it('flips reversals', () => {
+    const rows = parseMT940(statement([
+      ':61:240110RC5,00NTRFNONREF',
+      ':86:Reversed credit',
+      ':61:240110RD7,00NTRFNONREF',
+      ':86:Reversed debit',
+    ]))
+
+    expect(rows.map(r => r.amount)).toEqual([-5, 7])
+  })
+
+  it('takes the booking date across New Year from the value date', () => {
+    const rows = parseMT940(statement([
+      ':61:2312310102D1,00NTRFNONREF',
+      ':61:2401011231D1,00NTRFNONREF',
+    ]))
+
+    expect(rows.map(r => [r.date, r.valueDate])).toEqual([
+      ['2024-01-02', '2023-12-31'],
+      ['2023-12-31', '2024-01-01'],
+    ])
+  })
+
+  it('skips statement lines it cannot read', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const rows = parseMT940(statement([':61:garbage', ':61:240110D5,00NTRFNONREF']))
+
+    expect(rows).toHaveLength(1)
+    warn.mockRestore()
+  })
+
+  it('rejects other files', () => {
+    expect(() => parseMT940('Date;Amount\n2024-01-01;5')).toThrow('does not look like an MT940 statement')
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * MT940 Parser
+ *
+ * Reads transactions from SWIFT MT940 customer statements. Each :61: statement
+ * line becomes one transaction, described by the :86: field that follows it.
+ * Both the German ?-subfield layout and the /KEYWORD/ layout of :86: are understood;
+ * anything else is kept as free text.
+ */
+
+import type { StatementTransaction } from './statementImport'
+
+interface MT940Field {
+  tag: string
+  value: string
+}
+
+// :61: YYMMDD [MMDD] (R)C|(R)D [funds code] amount type-code customer-ref [//bank-ref]
+const STATEMENT_LINE_PATTERN = /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n|$)/
+
+// German banks: ?20-?29 and ?60-?63 carry remittance text, ?32/?33 the counterparty name
+const REMITTANCE_SUBFIELDS = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63']
+const COUNTERPARTY_SUBFIELDS = ['32', '33']
+
+export function parseMT940(content: string): StatementTransaction[] {
+  const fields = readFields(content)
+
+  if (!fields.some(f => f.tag === '61') && !fields.some(f => f.tag === '20')) {
+    throw new Error('This does not look like an MT940 statement')
+  }
+
+  const transactions: StatementTransaction[] = []
+
+  for (let i = 0; i < fields.length; i++) {
+    if (fields[i].tag !== '61') continue
+
+    const line = fields[i].value.match(STATEMENT_LINE_PATTERN)
+    if (!line) {
+      console.warn('[mt940Parser] Skipping unreadable statement line:', fields[i].value)
+      continue
+    }
+
+    const [, yy, mm, dd, entryDate, mark, , amountText, , , bankRef] = line
+    const valueDate = `${2000 + parseInt(yy)}-${mm}-${dd}`
+    const bookingDate = entryDate ? getEntryDate(valueDate, entryDate) : valueDate
+
+    const amount = parseFloat(amountText.replace(',', '.'))
+    if (isNaN(amount)) {
+      console.warn('[mt940Parser] Skipping statement line with invalid amount:', amountText)
+      continue
+    }
+
+    // Reversals flip the direction: RC undoes a credit, RD undoes a debit
+    const isDebit = mark === 'D' || mark === 'RC'
+
+    const information = fields[i + 1]?.tag === '86' ? parseInformation(fields[i + 1].value) : null
+    const counterparty = information?.counterparty || null
+    const remittanceInfo = information?.remittanceInfo || null
+    // Only the bank's own reference (after //) is unique; the customer reference
+    // repeats on recurring payments, so it would merge every month into one transaction
+    const reference = bankRef?.trim()
+
+    transactions.push({
+      date: bookingDate,
+      description: [counterparty, remittanceInfo].filter(Boolean).join(' - ') || 'Unknown',
+      amount: isDebit ? -amount : amount,
+      // Without a bank reference (or with NONREF) the content hash is used instead
+      externalId: reference && reference !== 'NONREF' ? reference : null,
+      valueDate: valueDate !== bookingDate ? valueDate : null,
+      counterparty,
+      remittanceInfo,
+    })
+  }
+
+  return transactions
+}
+
+/**
+ * Splits the message into :tag: fields, keeping continuation lines with their field.
+ * SWIFT block headers ({1:...}{4:) and the closing "-" are ignored.
+ */
+function readFields(content: string): MT940Field[] {
+  const fields: MT940Field[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/^(\{\d:[^{}]*\})*(\{4:)?/, '').trimEnd()
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/)
+
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] })
+    } else if (fields.length > 0 && line !== '-' && line !== '-}' && line.length > 0) {
+      fields[fields.length - 1].value += `\n${line}`
+    }
+  }
+
+  return fields
+}
+
+/**
+ * The :61: entry date has no year; it takes the value date's year,
+ * adjusted when the two fall either side of New Year
+ */
+function getEntryDate(valueDate: string, entryDate: string): string {
+  const valueYear = parseInt(valueDate.slice(0, 4))
+  const valueMonth = parseInt(valueDate.slice(5, 7))
+  const entryMonth = parseInt(entryDate.slice(0, 2))
+
+  let year = valueYear
+  if (valueMonth === 12 && entryMonth === 1) year++
+  if (valueMonth === 1 && entryMonth === 12) year--
+
+  return `${year}-${entryDate.slice(0, 2)}-${entryDate.slice(2, 4)}`
+}
+
+function parseInformation(value: string): { counterparty: string | null; remittanceInfo: string | null } {
+  // Lines wrap at a fixed width, so structured content is joined back without a separator
+  const joined = value.replace(/\n/g, '')
+
+  if (/\?\d{2}/.test(joined)) {
+    const subfields = new Map<string, string>()
+    for (const match of joined.matchAll(/\?(\d{2})([^?]*)/g)) {
+      subfields.set(match[1], (subfields.get(match[1]) || '') + match[2])
+    }
+
+    const pick = (keys: string[]) => keys.map(k => subfields.get(k) || '').join('').trim() || null
+    return {
+      counterparty: pick(COUNTERPARTY_SUBFIELDS),
+      remittanceInfo: stripSepaPrefixes(pick(REMITTANCE_SUBFIELDS)),
+    }
+  }
+
+  if (/\/(NAME|REMI)\//.test(joined)) {
+    return {
+      counterparty: getKeywordValue(joined, 'NAME'),
+      remittanceInfo: getKeywordValue(joined, 'REMI')?.replace(/^USTD\/\//, '') || null,
+    }
+  }
+
+  const text = value.replace(/\n/g, ' ').trim()
+  return { counterparty: null, remittanceInfo: text || null }
+}
+
+/**
+ * Value after /KEYWORD/ up to the next /KEYWORD/ (e.g. /NAME/ACME BV/REMI/...)
+ */
+function getKeywordValue(value: string, keyword: string): string | null {
+  const match = value.match(new RegExp(`/${keyword}/(.*?)(?:/[A-Z]{4}/|$)`))
+  const text = match?.[1].replace(/\/$/, '').trim()
+  return text || null
+}
+
+/**
+ * SEPA remittance text carries labelled parts (EREF+..., SVWZ+...);
+ * keep the purpose text when it is there
+ */
+function stripSepaPrefixes(value: string | null): string | null {
+  if (!value) return null
+
+  const purpose = value.match(/SVWZ\+(.*?)(?:[A-Z]{4}\+|$)/)
+  return (purpose ? purpose[1] : value).trim() || null
+}
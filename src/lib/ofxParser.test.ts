@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { parseOFX } from './ofxParser'
+
+// SGML flavour (OFX 1.x): leaf tags are never closed
+const sgml = (transactions: string) => `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+${transactions}
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`
+
+const transaction = (fields: Record<string, string>) =>
+  `<STMTTRN>\n${Object.entries(fields).map(([tag, value]) => `<${tag}>${value}`).join('\n')}\n</STMTTRN>`
+
+describe('parseOFX', () => {
+  it('reads SGML transactions', () => {
+    const rows = parseOFX(sgml(transaction({
+      TRNTYPE: 'DEBIT',
+      DTPOSTED: '20240105120000[-5:EST]',
+      TRNAMT: '-12.50',
+      FITID: 'abc123',
+      NAME: 'Coffee &amp; Co',
+    })))
+
+    expect(rows).toEqual([{
+      date: '2024-01-05',
+      description: 'Coffee & Co',
+      amount: -12.5,
+      dateText: '20240105120000[-5:EST]',
+      amountText: '-12.50',
+      externalId: 'abc123',
+    }])
+  })
+
+  it('reads XML transactions and falls back to the memo', () => {
+    const rows = parseOFX(`<?xml version="1.0"?><OFX><STMTTRN><DTPOSTED>20231231</DTPOSTED><TRNAMT>100</TRNAMT><MEMO>Salary</MEMO></STMTTRN></OFX>`)
+
+    expect(rows[0]).toMatchObject({ date: '2023-12-31', description: 'Salary', amount: 100, externalId: null })
+  })
+
+  it('keeps the calendar date whatever the time zone', () => {
+    const [row] = parseOFX(sgml(transaction({ DTPOSTED: '20240301000000[+13:NZDT]', TRNAMT: '1' })))
+    expect(row.date).toBe('2024-03-01')
+  })
+
+  it.each([
+    ['12,50', 12.5],
+    ['-1,234.56', -1234.56],
+    ['+7', 7],
+    ['.5', 0.5],
+  ])('reads the amount %s', (text, amount) => {
+    const [row] = parseOFX(sgml(transaction({ DTPOSTED: '20240105', TRNAMT: text })))
+    expect(row.amount).toBe(amount)
+  })
+
+  it.each(['1,000', '1.000,00', '1,000,000', 'abc'])('leaves the ambiguous or unreadable amount %s for validation', (text) => {
+    const rows = parseOFX(sgml(
+      transaction({ DTPOSTED: '20240105', TRNAMT: text, FITID: 'bad' }) +
+      transaction({ DTPOSTED: '20240106', TRNAMT: '-5.00', FITID: 'good' })
+    ))
+
+    // The rest of the statement still imports
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toMatchObject({ amount: null, amountText: text })
+    expect(rows[1]).toMatchObject({ amount: -5, externalId: 'good' })
+  })
+
+  it('keeps transactions without a date or amount as rows instead of dropping them', () => {
+    const rows = parseOFX(sgml(transaction({ TRNAMT: '-5.00', NAME: 'No date' }) + transaction({ DTPOSTED: 'not-a-date', NAME: 'No amount' })))
+
+    expect(rows).toEqual([
+      expect.objectContaining({ date: null, dateText: '', amount: -5 }),
+      expect.objectContaining({ date: null, dateText: 'not-a-date', amount: null, amountText: '' }),
+    ])
+  })
+
+  it('rejects files that are not OFX', () => {
+    expect(() => parseOFX('Date,Amount\n2024-01-01,5')).toThrow('does not look like an OFX/QFX file')
+  })
+
+  it('accepts an OFX file without transactions', () => {
+    expect(parseOFX(sgml(''))).toEqual([])
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * OFX / QFX Parser
+ *
+ * Reads transactions out of OFX statement downloads. Handles both the
+ * SGML flavour (OFX 1.x, unclosed leaf tags) and the XML flavour (OFX 2.x).
+ * QFX is Quicken's branded OFX and parses identically.
+ */
+
+import type { StatementTransaction } from './statementImport'
+
+export function parseOFX(content: string): StatementTransaction[] {
+  const transactions: StatementTransaction[] = []
+
+  // Each transaction lives in its own <STMTTRN> aggregate
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || []
+
+  if (blocks.length === 0 && !/<OFX>/i.test(content)) {
+    throw new Error('This does not look like an OFX/QFX file')
+  }
+
+  for (const block of blocks) {
+    const datePosted = getTagValue(block, 'DTPOSTED')
+    const amount = getTagValue(block, 'TRNAMT')
+    const name = getTagValue(block, 'NAME') || getTagValue(block, 'PAYEE')
+    const memo = getTagValue(block, 'MEMO')
+    const fitId = getTagValue(block, 'FITID')
+
+    // A missing or unreadable date or amount leaves the row for import validation to
+    // report; an ambiguous amount is never guessed, it could be a thousand times off
+    transactions.push({
+      date: datePosted ? parseOFXDate(datePosted) : null,
+      description: name || memo || 'Unknown',
+      amount: amount ? parseOFXAmount(amount) : null,
+      dateText: datePosted || '',
+      amountText: amount || '',
+      externalId: fitId || null,
+    })
+  }
+
+  return transactions
+}
+
+/**
+ * Some banks write a comma as the decimal separator (12,50). A comma only counts
+ * as one when there is no '.'; with a '.' commas must be thousands separators
+ * (1,000.00). Anything else (1.000,00, 1,000,000, or 1,000 which could be either)
+ * gives null.
+ */
+function parseOFXAmount(value: string): number | null {
+  const amount = value.replace(/\s/g, '')
+
+  if (/^[+-]?\d*\.?\d+$/.test(amount)) return parseFloat(amount)
+  if (/^[+-]?\d{1,3}(,\d{3})+\.\d+$/.test(amount)) return parseFloat(amount.replace(/,/g, ''))
+  if (/^[+-]?\d*,\d+$/.test(amount) && !/^[+-]?\d{1,3},\d{3}$/.test(amount)) return parseFloat(amount.replace(',', '.'))
+
+  return null
+}
+
+/**
+ * Reads a leaf element value. SGML OFX leaves the closing tag off,
+ * so the value runs until the next tag or line break.
+ */
+function getTagValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  if (!match) return null
+
+  const value = decodeEntities(match[1].trim())
+  return value.length > 0 ? value : null
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * OFX dates are YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]].
+ * Only the calendar date is kept, so no timezone conversion can shift it.
+ * Null when the value isn't a date.
+ */
+function parseOFXDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest'
+import { parseQIF } from './qifParser'
+
+describe('parseQIF', () => {
+  it('reads bank transactions', () => {
+    const rows = parseQIF([
+      '!Type:Bank',
+      'D1/5/2024',
+      'T-1,234.56',
+      'PLandlord',
+      'MJanuary rent',
+      'LHousing:Rent/Home',
+      '^',
+      "D12/31'23",
+      'U100.00',
+      'MInterest',
+      '^',
+    ].join('\r\n'))
+
+    expect(rows).toEqual([
+      { date: '2024-01-05', description: 'Landlord', amount: -1234.56, category: 'Housing:Rent' },
+      { date: '2023-12-31', description: 'Interest', amount: 100, category: null },
+    ])
+  })
+
+  it('reads two-digit years and space-padded dates', () => {
+    const rows = parseQIF("!Type:CCard\nD3/4/99\nT-1\n^\nD3/4/07\nT-2\n^\nD 3/ 4'07\nT-3\n^")
+    expect(rows.map(r => r.date)).toEqual(['1999-03-04', '2007-03-04', '2007-03-04'])
+  })
+
+  it('expands splits into one row per line', () => {
+    const rows = parseQIF([
+      '!Type:Bank',
+      'D2/1/2024',
+      'T-30.00',
+      'PSupermarket',
+      'SFood:Groceries',
+      'EFood',
+      '$-20.00',
+      'SHousehold',
+      '$-10.00',
+      '^',
+    ].join('\n'))
+
+    expect(rows).toEqual([
+      { date: '2024-02-01', description: 'Supermarket (Food)', amount: -20, category: 'Food:Groceries', splitIndex: 0 },
+      { date: '2024-02-01', description: 'Supermarket', amount: -10, category: 'Household', splitIndex: 1 },
+    ])
+  })
+
+  it('ignores transfer categories', () => {
+    const [row] = parseQIF('!Type:Bank\nD1/1/2024\nT-5\nL[Savings]\n^')
+    expect(row.category).toBeNull()
+  })
+
+  it('skips sections that are not bank-style', () => {
+    const rows = parseQIF([
+      '!Type:Cat',
+      'NGroceries',
+      '^',
+      '!Type:Invst',
+      'D1/1/2024',
+      'T-500',
+      '^',
+      '!Type:Cash',
+      'D1/2/2024',
+      'T-5',
+      '^',
+    ].join('\n'))
+
+    expect(rows).toHaveLength(1)
+    expect(rows[0]).toMatchObject({ date: '2024-01-02', amount: -5 })
+  })
+
+  it('skips records without a readable date or amount', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const rows = parseQIF('!Type:Bank\nD13/45/2024\nT-5\n^\nD1/1/2024\nTabc\n^\nD1/2/2024\nT-6\n^')
+
+    expect(rows).toHaveLength(1)
+    expect(rows[0].amount).toBe(-6)
+    warn.mockRestore()
+  })
+
+  it('rejects files without a type header', () => {
+    expect(() => parseQIF('D1/1/2024\nT-5\n^')).toThrow('missing !Type header')
+  })
+})
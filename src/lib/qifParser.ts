@@ -0,0 +1,177 @@
+/**
+ * QIF Parser
+ *
+ * Reads transactions from Quicken Interchange Format exports.
+ * Only bank-style sections (!Type:Bank, !Type:CCard, !Type:Cash, !Type:Oth A/L)
+ * are imported; category lists, memorized payees and investment sections are skipped.
+ * Split transactions are expanded into one row per split line.
+ */
+
+import type { StatementTransaction } from './statementImport'
+
+const SUPPORTED_TYPES = ['bank', 'ccard', 'cash', 'oth a', 'oth l']
+
+interface QIFSplit {
+  category: string | null
+  memo: string
+  amount: number | null
+}
+
+interface QIFRecord {
+  date: string | null
+  amount: number | null
+  payee: string
+  memo: string
+  category: string | null
+  splits: QIFSplit[]
+}
+
+export function parseQIF(content: string): StatementTransaction[] {
+  const lines = content.split(/\r?\n/)
+  const transactions: StatementTransaction[] = []
+
+  let inSupportedSection = false
+  let sawHeader = false
+  let record = emptyRecord()
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd()
+    if (line.length === 0) continue
+
+    if (line.startsWith('!')) {
+      // Section headers, e.g. "!Type:Bank" or "!Option:AutoSwitch"
+      const header = line.toLowerCase()
+      if (header.startsWith('!type:')) {
+        sawHeader = true
+        inSupportedSection = SUPPORTED_TYPES.includes(header.slice(6).trim())
+      } else if (header.startsWith('!account')) {
+        inSupportedSection = false
+      }
+      record = emptyRecord()
+      continue
+    }
+
+    if (!inSupportedSection) continue
+
+    const code = line[0]
+    const value = line.slice(1).trim()
+
+    switch (code) {
+      case 'D':
+        record.date = parseQIFDate(value)
+        break
+      case 'T':
+      case 'U':
+        record.amount = parseQIFAmount(value)
+        break
+      case 'P':
+        record.payee = value
+        break
+      case 'M':
+        record.memo = value
+        break
+      case 'L':
+        record.category = parseQIFCategory(value)
+        break
+      case 'S':
+        record.splits.push({ category: parseQIFCategory(value), memo: '', amount: null })
+        break
+      case 'E':
+        if (record.splits.length > 0) {
+          record.splits[record.splits.length - 1].memo = value
+        }
+        break
+      case '$':
+        if (record.splits.length > 0) {
+          record.splits[record.splits.length - 1].amount = parseQIFAmount(value)
+        }
+        break
+      case '^':
+        transactions.push(...recordToTransactions(record))
+        record = emptyRecord()
+        break
+      default:
+        // N (check number), C (cleared), A (address) etc. are not needed
+        break
+    }
+  }
+
+  if (!sawHeader) {
+    throw new Error('This does not look like a QIF file (missing !Type header)')
+  }
+
+  return transactions
+}
+
+function emptyRecord(): QIFRecord {
+  return { date: null, amount: null, payee: '', memo: '', category: null, splits: [] }
+}
+
+function recordToTransactions(record: QIFRecord): StatementTransaction[] {
+  if (!record.date || record.amount === null) {
+    console.warn('[qifParser] Skipping record without date or amount:', record)
+    return []
+  }
+
+  const description = record.payee || record.memo || 'Unknown'
+  const splits = record.splits.filter(s => s.amount !== null)
+
+  if (splits.length === 0) {
+    return [{
+      date: record.date,
+      description,
+      amount: record.amount,
+      category: record.category,
+    }]
+  }
+
+  return splits.map((split, index) => ({
+    date: record.date as string,
+    description: split.memo ? `${description} (${split.memo})` : description,
+    amount: split.amount as number,
+    category: split.category,
+    splitIndex: index,
+  }))
+}
+
+/**
+ * Quicken writes dates as M/D/YY, M/D'YY (apostrophe = 2000s) or M/D/YYYY,
+ * sometimes with dashes or dots and padded with spaces.
+ */
+function parseQIFDate(value: string): string | null {
+  const match = value.replace(/\s/g, '').match(/^(\d{1,2})[/\-.](\d{1,2})(['/\-.])(\d{2,4})$/)
+  if (!match) {
+    console.warn('[qifParser] Unrecognized date:', value)
+    return null
+  }
+
+  const month = parseInt(match[1], 10)
+  const day = parseInt(match[2], 10)
+  let year = parseInt(match[4], 10)
+
+  if (match[4].length === 2) {
+    year += match[3] === "'" || year < 50 ? 2000 : 1900
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    console.warn('[qifParser] Invalid date:', value)
+    return null
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+function parseQIFAmount(value: string): number | null {
+  const parsed = parseFloat(value.replace(/[,$\s]/g, ''))
+  return isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Strips the class ("Category/Class") and ignores transfers ("[Account]").
+ * Returns the "Parent:Child" path as written by Quicken.
+ */
+function parseQIFCategory(value: string): string | null {
+  const category = value.split('/')[0].trim()
+  if (!category || category.startsWith('[')) return null
+  return category
+}
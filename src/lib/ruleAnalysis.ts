@@ -0,0 +1,168 @@
+/**
+ * Rule Analysis
+ *
+ * Finds rules that need attention once a rule list has grown:
+ * - conflicting: two rules catch the same transactions but set different categories
+ * - shadowed: an earlier rule always matches first and leaves this one nothing to do
+ * - dead: the rule matches none of the existing transactions
+ * - orphaned: the rule's category was deleted, so it no longer does anything useful
+ */
+
+import type { Rule } from '@/hooks/useRules'
+import { sortRulesByPriority, hasRuleActions } from './ruleMatching'
+
+export type RuleIssueKind = 'conflicting' | 'shadowed' | 'dead' | 'orphaned'
+
+export const RULE_ISSUE_LABELS: Record<RuleIssueKind, string> = {
+  conflicting: 'Conflicting',
+  shadowed: 'Shadowed',
+  dead: 'Never matches',
+  orphaned: 'Orphaned',
+}
+
+export const RULE_ISSUE_STYLES: Record<RuleIssueKind, string> = {
+  conflicting: 'bg-red-100 text-red-800',
+  shadowed: 'bg-orange-100 text-orange-800',
+  dead: 'bg-gray-100 text-gray-700',
+  orphaned: 'bg-purple-100 text-purple-800',
+}
+
+export interface RuleIssue {
+  kind: RuleIssueKind
+  rule: Rule
+  otherRule?: Rule
+  message: string
+  suggestion: string
+}
+
+/**
+ * Whether every description the specific rule's pattern matches is also matched by the
+ * general rule. Only decidable for the plain-text match types; conditions on the general
+ * rule narrow it, so such rules never cover another.
+ */
+function patternCovers(general: Rule, specific: Rule): boolean {
+  if (general.conditions?.length > 0) return false
+
+  const generalType = general.match_type || 'contains'
+  const specificType = specific.match_type || 'contains'
+  const generalPattern = general.pattern.toLowerCase()
+  const specificPattern = specific.pattern.toLowerCase()
+
+  switch (generalType) {
+    case 'contains':
+      return ['contains', 'equals', 'starts-with', 'ends-with'].includes(specificType)
+        && specificPattern.includes(generalPattern)
+    case 'starts-with':
+      return ['equals', 'starts-with'].includes(specificType) && specificPattern.startsWith(generalPattern)
+    case 'ends-with':
+      return ['equals', 'ends-with'].includes(specificType) && specificPattern.endsWith(generalPattern)
+    case 'equals':
+      return specificType === 'equals' && specificPattern.trim() === generalPattern.trim()
+    default:
+      return false
+  }
+}
+
+/**
+ * Whether a later rule has nothing left to do after the earlier one: the earlier rule stops
+ * processing, or already sets every field the later one would. Tags and flags add up, so a
+ * later rule with them is never fully shadowed.
+ */
+function leavesNothingFor(earlier: Rule, later: Rule): boolean {
+  if (earlier.stop_processing) return true
+  if (later.add_tags?.length || later.mark_transfer || later.mark_reimbursable) return false
+
+  return (!later.category_id || Boolean(earlier.category_id))
+    && (!later.member_id || Boolean(earlier.member_id))
+    && (!later.set_vendor || Boolean(earlier.set_vendor))
+    && (!later.add_note || Boolean(earlier.add_note))
+}
+
+/**
+ * matchedIds is which transactions each rule matches (matchRulesOnServer), for dead
+ * rules and overlap between rules. transactionCount is how many the household has
+ * in all, not just how many are loaded.
+ */
+export function analyzeRules(
+  rules: Rule[],
+  transactionCount: number,
+  categoryIds: Set<string>,
+  matchedIds: Map<string, Set<string>>
+): RuleIssue[] {
+  const ordered = sortRulesByPriority(rules)
+  const issues: RuleIssue[] = []
+
+  const sharesTransactions = (a: Rule, b: Rule) => {
+    const bIds = matchedIds.get(b.id)
+    return [...(matchedIds.get(a.id) || [])].some(id => bIds?.has(id))
+  }
+
+  const shadowedIds = new Set<string>()
+
+  ordered.forEach((later, laterIndex) => {
+    for (const earlier of ordered.slice(0, laterIndex)) {
+      if (!patternCovers(earlier, later) || !leavesNothingFor(earlier, later)) continue
+      // Different categories are reported as a conflict below
+      if (earlier.category_id && later.category_id && earlier.category_id !== later.category_id) continue
+
+      shadowedIds.add(later.id)
+      issues.push({
+        kind: 'shadowed',
+        rule: later,
+        otherRule: earlier,
+        message: `"${earlier.pattern}" comes first and matches everything "${later.pattern}" does`,
+        suggestion: patternCovers(later, earlier)
+          ? `Delete "${later.pattern}"; it duplicates the earlier rule`
+          : `Move "${later.pattern}" above "${earlier.pattern}" if it should win, or delete it`,
+      })
+      break
+    }
+  })
+
+  ordered.forEach((first, firstIndex) => {
+    for (const second of ordered.slice(firstIndex + 1)) {
+      if (!first.category_id || !second.category_id || first.category_id === second.category_id) continue
+      if (shadowedIds.has(second.id)) continue
+
+      const overlaps = patternCovers(first, second) || patternCovers(second, first) || sharesTransactions(first, second)
+      if (!overlaps) continue
+
+      // A more specific rule further down loses on every transaction the general one catches
+      const suggestion = patternCovers(first, second) && !patternCovers(second, first)
+        ? `Move "${second.pattern}" above "${first.pattern}" so the more specific rule wins`
+        : `Add a condition or narrow one of the patterns so only one of them applies`
+
+      issues.push({
+        kind: 'conflicting',
+        rule: second,
+        otherRule: first,
+        message: `"${first.pattern}" and "${second.pattern}" can match the same transactions but set different categories`,
+        suggestion,
+      })
+    }
+  })
+
+  for (const rule of ordered) {
+    if ((rule.category_id && !categoryIds.has(rule.category_id)) || !hasRuleActions(rule)) {
+      issues.push({
+        kind: 'orphaned',
+        rule,
+        message: rule.category_id
+          ? 'Its category no longer exists'
+          : 'It has no category or anything else left to set, probably because its category was deleted',
+        suggestion: 'Choose a new category or delete the rule',
+      })
+    }
+
+    if (transactionCount > 0 && !matchedIds.get(rule.id)?.size) {
+      issues.push({
+        kind: 'dead',
+        rule,
+        message: `Matches none of the ${transactionCount} existing transactions`,
+        suggestion: 'Check the pattern against a real description, or delete the rule if it is no longer needed',
+      })
+    }
+  }
+
+  return issues
+}
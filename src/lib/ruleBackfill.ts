@@ -0,0 +1,139 @@
+/**
+ * Rule Backfill
+ *
+ * Works out what running rules over transactions already in the database would
+ * change, so the change can be previewed before anything is written. Rules are
+ * evaluated by the database exactly as at import time - all rules in priority
+ * order (evaluateTransactionsOnServer) - and a transaction only counts when one of
+ * the rules being run matched it.
+ */
+
+import type { Transaction, TransactionWithDetails } from '@/hooks/useTransactions'
+import type { RuleEvaluation } from './ruleMatching'
+
+// The fields rules set on a transaction besides its category and member
+export type RuleEffectUpdates = Partial<Pick<Transaction, 'vendor' | 'tags' | 'notes' | 'is_transfer' | 'is_reimbursable'>>
+
+export interface RuleBackfillOptions {
+  // Otherwise only transactions without a category are touched
+  includeCategorized: boolean
+}
+
+export interface RuleBackfillChange {
+  transaction: TransactionWithDetails
+  oldCategoryId: string | null
+  newCategoryId: string | null
+  oldMemberId: string | null
+  newMemberId: string | null
+  otherUpdates: RuleEffectUpdates // Vendor, tags, note and flags the rules set
+  matchedRuleIds: string[]
+}
+
+/**
+ * What applying a rule result to an existing transaction changes besides its
+ * category and member, the way the insert trigger applies them: tags are added
+ * to the ones it has, a note only fills an empty one, and the vendor and flags
+ * only change when a rule sets them. Fields already as the rules want them
+ * are left out, so an empty object means nothing else changes.
+ */
+export function getRuleEffectUpdates(
+  result: RuleEvaluation,
+  transaction: Pick<Transaction, 'vendor' | 'tags' | 'notes' | 'is_transfer' | 'is_reimbursable'>
+): RuleEffectUpdates {
+  const updates: RuleEffectUpdates = {}
+  const tags = transaction.tags || []
+
+  if (result.vendor && result.vendor !== transaction.vendor) updates.vendor = result.vendor
+  if (result.tags.some(tag => !tags.includes(tag))) updates.tags = [...new Set([...tags, ...result.tags])]
+  if (result.note && !transaction.notes) updates.notes = result.note
+  if (result.isTransfer && !transaction.is_transfer) updates.is_transfer = true
+  if (result.isReimbursable && !transaction.is_reimbursable) updates.is_reimbursable = true
+
+  return updates
+}
+
+/**
+ * evaluations are the rule results for the transactions, by transaction id; ones
+ * no rule matched can be left out
+ */
+export function previewRuleBackfill(
+  evaluations: Map<string, RuleEvaluation>,
+  ruleIdsToRun: string[],
+  transactions: TransactionWithDetails[],
+  options: RuleBackfillOptions
+): RuleBackfillChange[] {
+  const runIds = new Set(ruleIdsToRun)
+  const changes: RuleBackfillChange[] = []
+
+  for (const transaction of transactions) {
+    if (!options.includeCategorized && transaction.category_id) continue
+
+    const result = evaluations.get(transaction.id)
+    if (!result?.matchedRuleIds.some(id => runIds.has(id))) continue
+
+    // Rules without a category or member leave the current one alone; on
+    // uncategorized transactions a member picked by hand is kept as well
+    const newCategoryId = result.categoryId || transaction.category_id
+    const newMemberId = options.includeCategorized
+      ? result.memberId || transaction.member_id
+      : transaction.member_id || result.memberId
+
+    const otherUpdates = getRuleEffectUpdates(result, transaction)
+
+    if (
+      newCategoryId === transaction.category_id &&
+      newMemberId === transaction.member_id &&
+      Object.keys(otherUpdates).length === 0
+    ) continue
+
+    changes.push({
+      transaction,
+      oldCategoryId: transaction.category_id,
+      newCategoryId,
+      oldMemberId: transaction.member_id,
+      newMemberId,
+      otherUpdates,
+      matchedRuleIds: result.matchedRuleIds,
+    })
+  }
+
+  return changes
+}
+
+export type RuleBackfillUpdates = RuleEffectUpdates & { category_id: string | null; member_id: string | null }
+
+/**
+ * Groups changes that write the same fields, so each group can be written with
+ * one update
+ */
+export function groupRuleBackfillChanges(
+  changes: RuleBackfillChange[]
+): { updates: RuleBackfillUpdates; transactionIds: string[] }[] {
+  const groups = new Map<string, { updates: RuleBackfillUpdates; transactionIds: string[] }>()
+
+  for (const change of changes) {
+    const updates = { category_id: change.newCategoryId, member_id: change.newMemberId, ...change.otherUpdates }
+    const key = JSON.stringify(updates)
+    const group = groups.get(key) || { updates, transactionIds: [] }
+    group.transactionIds.push(change.transaction.id)
+    groups.set(key, group)
+  }
+
+  return [...groups.values()]
+}
+
+/**
+ * Short labels for the vendor, tag, note and flag changes, for the preview
+ */
+export function describeRuleEffectUpdates(updates: RuleEffectUpdates, transaction: Pick<Transaction, 'tags'>): string[] {
+  const labels: string[] = []
+  if (updates.vendor) labels.push(`Vendor: ${updates.vendor}`)
+  if (updates.tags) {
+    const added = updates.tags.filter(tag => !(transaction.tags || []).includes(tag))
+    labels.push(`Tags: +${added.join(', +')}`)
+  }
+  if (updates.notes) labels.push(`Note: ${updates.notes}`)
+  if (updates.is_transfer) labels.push('Transfer')
+  if (updates.is_reimbursable) labels.push('Reimbursable')
+  return labels
+}
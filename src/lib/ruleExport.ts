@@ -0,0 +1,307 @@
+/**
+ * Rule Export
+ *
+ * Moves rules between households as JSON. Categories, members and accounts are
+ * written by name ("Food & Dining → Groceries") instead of by id, since ids mean
+ * nothing in another household; importing maps the names back onto the target
+ * household and reports what could not be matched. A file may come from anywhere, so
+ * every rule in it is checked before it is imported.
+ */
+
+import type { Rule, RuleActions } from '@/hooks/useRules'
+import type { Category } from '@/hooks/useCategories'
+import type { Account } from '@/hooks/useAccounts'
+import { splitCategoryPath, findCategoryByPath, type CategoryPath } from './categoryPaths'
+import {
+  sortRulesByPriority,
+  validateRulePattern,
+  validateRuleConditions,
+  RULE_MATCH_TYPES,
+  RULE_CONDITION_TYPES,
+  AMOUNT_OPERATOR_LABELS,
+  type RuleCondition,
+  type RuleConditionLogic,
+  type RuleMatchType,
+} from './ruleMatching'
+
+export const RULES_EXPORT_VERSION = 1
+
+const CATEGORY_PATH_SEPARATOR = '→'
+
+// Account conditions name their accounts; every other condition is portable as-is
+export type ExportedRuleCondition =
+  | Exclude<RuleCondition, { type: 'account' }>
+  | { type: 'account'; accountNames: string[] }
+
+export interface ExportedRule extends RuleActions {
+  pattern: string
+  match_type: RuleMatchType
+  category: string | null // e.g. "Food & Dining → Groceries"
+  member: string | null
+  stop_processing: boolean
+  conditions: ExportedRuleCondition[]
+  condition_logic: RuleConditionLogic
+}
+
+export interface RulesExport {
+  version: number
+  exported_at: string
+  rules: ExportedRule[] // In evaluation order
+}
+
+export interface RuleImportItem {
+  rule: ExportedRule
+  invalidReason: string | null // Invalid rules are skipped and nothing else about them is mapped
+  categoryId: string | null
+  missingCategory: CategoryPath | null // Created on request, otherwise the rule is imported without it
+  memberId: string | null
+  missingMember: string | null
+  conditions: RuleCondition[]
+  missingAccounts: string[] // Rules with these are skipped; dropping the condition would widen the rule
+  existingRule: Rule | null // Same pattern and match type already in the household
+  conflict: boolean // The existing rule does something different; otherwise it's a duplicate
+}
+
+export function createRulesExport(
+  rules: Rule[],
+  categories: Category[],
+  members: { id: string; name: string }[],
+  accounts: Account[]
+): RulesExport {
+  const getCategoryPath = (categoryId: string | null) => {
+    const category = categories.find(c => c.id === categoryId)
+    if (!category) return null
+    const parent = categories.find(c => c.id === category.parent_category_id)
+    return parent ? `${parent.name} ${CATEGORY_PATH_SEPARATOR} ${category.name}` : category.name
+  }
+
+  return {
+    version: RULES_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    rules: sortRulesByPriority(rules).map(rule => ({
+      pattern: rule.pattern,
+      match_type: rule.match_type || 'contains',
+      category: getCategoryPath(rule.category_id),
+      member: members.find(m => m.id === rule.member_id)?.name || null,
+      stop_processing: rule.stop_processing || false,
+      conditions: (rule.conditions || []).map(condition => condition.type === 'account'
+        ? { type: 'account' as const, accountNames: condition.accountIds.map(id => accounts.find(a => a.id === id)?.name || id) }
+        : condition),
+      condition_logic: rule.condition_logic || 'all',
+      set_vendor: rule.set_vendor || null,
+      add_tags: rule.add_tags || [],
+      add_note: rule.add_note || null,
+      mark_transfer: rule.mark_transfer || false,
+      mark_reimbursable: rule.mark_reimbursable || false,
+    })),
+  }
+}
+
+/**
+ * Reads an exported file, throwing when it isn't one
+ */
+export function parseRulesExport(content: string): RulesExport {
+  let data: RulesExport
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  if (!data || !Array.isArray(data.rules)) {
+    throw new Error('The file does not contain exported rules')
+  }
+  if (data.version > RULES_EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of the app')
+  }
+
+  const invalid = data.rules.findIndex(rule => !rule || typeof rule !== 'object' || Array.isArray(rule))
+  if (invalid !== -1) {
+    throw new Error(`Rule ${invalid + 1} in the file is not a rule`)
+  }
+
+  return data
+}
+
+const isText = (value: unknown) => typeof value === 'string'
+const isOptionalText = (value: unknown) => value === null || value === undefined || typeof value === 'string'
+const isOptionalFlag = (value: unknown) => value === undefined || typeof value === 'boolean'
+const isNumber = (value: unknown) => typeof value === 'number' && !isNaN(value)
+
+function validateExportedCondition(condition: ExportedRuleCondition): string | null {
+  if (!condition || typeof condition !== 'object' || !RULE_CONDITION_TYPES.some(t => t.value === condition.type)) {
+    return 'Unknown condition'
+  }
+
+  switch (condition.type) {
+    case 'amount':
+      if (!Object.keys(AMOUNT_OPERATOR_LABELS).includes(condition.operator) || !isNumber(condition.value)) return 'Unreadable amount condition'
+      if (condition.max !== undefined && !isNumber(condition.max)) return 'Unreadable amount condition'
+      return null
+    case 'account':
+      if (!Array.isArray(condition.accountNames) || !condition.accountNames.every(isText)) return 'Unreadable account condition'
+      return condition.accountNames.length === 0 ? 'Choose at least one account for the account condition' : null
+    case 'direction':
+      return ['expense', 'income'].includes(condition.direction) ? null : 'Unreadable expense or income condition'
+    case 'day-of-month':
+      return isNumber(condition.from) && isNumber(condition.to) ? null : 'Unreadable day of month condition'
+  }
+}
+
+/**
+ * Why an exported rule can't be imported, or null. Regular expressions are checked
+ * separately, by the database that runs them.
+ */
+function validateExportedRule(rule: ExportedRule): string | null {
+  if (!isText(rule.pattern)) return 'Pattern is required'
+
+  const matchType = rule.match_type ?? 'contains'
+  if (!RULE_MATCH_TYPES.some(t => t.value === matchType)) return `Unknown match type "${matchType}"`
+
+  const patternError = validateRulePattern(rule.pattern, matchType)
+  if (patternError) return patternError
+
+  if (!isOptionalText(rule.category) || !isOptionalText(rule.member)) return 'Unreadable category or member'
+  if (!isOptionalText(rule.set_vendor) || !isOptionalText(rule.add_note)) return 'Unreadable vendor or note'
+  if (rule.add_tags !== undefined && !(Array.isArray(rule.add_tags) && rule.add_tags.every(isText))) return 'Unreadable tags'
+  if (![rule.stop_processing, rule.mark_transfer, rule.mark_reimbursable].every(isOptionalFlag)) return 'Unreadable options'
+  if (rule.condition_logic !== undefined && !['all', 'any'].includes(rule.condition_logic)) return 'Unreadable condition logic'
+
+  if (rule.conditions === undefined) return null
+  if (!Array.isArray(rule.conditions)) return 'Unreadable conditions'
+  for (const condition of rule.conditions) {
+    const conditionError = validateExportedCondition(condition)
+    if (conditionError) return conditionError
+  }
+
+  // Account conditions were checked above; they still need mapping onto this household
+  return validateRuleConditions(rule.conditions.filter((c): c is Exclude<RuleCondition, { type: 'account' }> => c.type !== 'account'))
+}
+
+// Conditions as stored, with their keys in one order so two lists can be compared as text
+function getConditionsKey(conditions: RuleCondition[]): string {
+  return JSON.stringify(conditions.map(condition => Object.entries(condition).sort(([a], [b]) => a.localeCompare(b))))
+}
+
+/**
+ * Whether an existing rule already does exactly what the imported one would
+ */
+function sameRuleEffect(existing: Rule, item: Pick<RuleImportItem, 'rule' | 'categoryId' | 'memberId' | 'conditions'>): boolean {
+  const { rule } = item
+  const sameTags = [...(existing.add_tags || [])].sort().join(',') === [...(rule.add_tags || [])].sort().join(',')
+
+  return (existing.category_id || null) === item.categoryId
+    && (existing.member_id || null) === item.memberId
+    && (existing.set_vendor || null) === (rule.set_vendor || null)
+    && (existing.add_note || null) === (rule.add_note || null)
+    && sameTags
+    && Boolean(existing.mark_transfer) === Boolean(rule.mark_transfer)
+    && Boolean(existing.mark_reimbursable) === Boolean(rule.mark_reimbursable)
+    && Boolean(existing.stop_processing) === Boolean(rule.stop_processing)
+    && (existing.condition_logic || 'all') === (rule.condition_logic || 'all')
+    && getConditionsKey(existing.conditions || []) === getConditionsKey(item.conditions)
+}
+
+/**
+ * Maps each exported rule onto the target household. regexErrors holds the database's
+ * verdict on the file's regular expressions, by pattern (see getExportedRegexPatterns).
+ */
+export function planRulesImport(
+  exported: RulesExport,
+  target: {
+    rules: Rule[]
+    categories: Category[]
+    members: { id: string; name: string }[]
+    accounts: Account[]
+  },
+  regexErrors: Map<string, string | null>
+): RuleImportItem[] {
+  const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+  return exported.rules.map(rule => {
+    const invalidReason = validateExportedRule(rule)
+      || (rule.match_type === 'regex' ? regexErrors.get(rule.pattern) || null : null)
+    if (invalidReason) {
+      return {
+        rule,
+        invalidReason,
+        categoryId: null,
+        missingCategory: null,
+        memberId: null,
+        missingMember: null,
+        conditions: [],
+        missingAccounts: [],
+        existingRule: null,
+        conflict: false,
+      }
+    }
+
+    const path = rule.category ? splitCategoryPath(rule.category, CATEGORY_PATH_SEPARATOR) : null
+    const category = path ? findCategoryByPath(target.categories, path) : null
+    const member = rule.member ? target.members.find(m => sameName(m.name, rule.member as string)) : null
+
+    const missingAccounts: string[] = []
+    const conditions: RuleCondition[] = (rule.conditions || []).map(condition => {
+      if (condition.type !== 'account') return condition
+
+      const accountIds = condition.accountNames.map(name => {
+        const account = target.accounts.find(a => sameName(a.name, name))
+        if (!account) missingAccounts.push(name)
+        return account?.id
+      }).filter((id): id is string => Boolean(id))
+
+      return { type: 'account', accountIds }
+    })
+
+    const matchType = rule.match_type || 'contains'
+    const existingRule = target.rules.find(r =>
+      (r.match_type || 'contains') === matchType && sameName(r.pattern, rule.pattern)
+    ) || null
+
+    const item = {
+      rule,
+      invalidReason: null,
+      categoryId: category?.id || null,
+      missingCategory: path && !category ? path : null,
+      memberId: member?.id || null,
+      missingMember: rule.member && !member ? rule.member : null,
+      conditions,
+      missingAccounts,
+      existingRule,
+    }
+    return { ...item, conflict: Boolean(existingRule && !sameRuleEffect(existingRule, item)) }
+  })
+}
+
+/**
+ * The file's regular expression patterns, to check with the database before planning
+ */
+export function getExportedRegexPatterns(exported: RulesExport): string[] {
+  return [...new Set(exported.rules
+    .filter(rule => rule.match_type === 'regex' && isText(rule.pattern))
+    .map(rule => rule.pattern))]
+}
+
+export type RuleImportStatus = 'new' | 'conflict' | 'duplicate' | 'missing-account' | 'nothing-to-do' | 'invalid'
+
+export const RULE_IMPORT_STATUS_LABELS: Record<RuleImportStatus, string> = {
+  'new': 'Will be added',
+  'conflict': 'Conflicts with an existing rule',
+  'duplicate': 'Already exists',
+  'missing-account': 'Unknown account',
+  'nothing-to-do': 'Nothing left to set',
+  'invalid': 'Invalid rule',
+}
+
+export function getRuleImportStatus(item: RuleImportItem, options: { createMissingCategories: boolean }): RuleImportStatus {
+  if (item.invalidReason) return 'invalid'
+  if (item.missingAccounts.length > 0) return 'missing-account'
+  if (item.existingRule) return item.conflict ? 'conflict' : 'duplicate'
+
+  // Without its category (or member) a rule may have nothing left to do
+  const willHaveCategory = Boolean(item.categoryId || (item.missingCategory && options.createMissingCategories))
+  const { rule } = item
+  const hasActions = willHaveCategory || item.memberId || rule.set_vendor || rule.add_tags?.length ||
+    rule.add_note || rule.mark_transfer || rule.mark_reimbursable
+  return hasActions ? 'new' : 'nothing-to-do'
+}
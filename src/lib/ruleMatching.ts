@@ -0,0 +1,167 @@
+/**
+ * Rule Matching
+ *
+ * Types, labels and form checks for categorization rules. The rules themselves only
+ * run in the database (evaluate_rules and the functions next to it in
+ * database-updates.sql), so imports, the Inbox, rule tests and analysis can't
+ * disagree about what a pattern matches; useRules has the calls.
+ */
+
+import type { Rule } from '@/hooks/useRules'
+
+export type RuleMatchType = 'contains' | 'equals' | 'starts-with' | 'ends-with' | 'wildcard' | 'regex'
+
+export const RULE_MATCH_TYPES: { value: RuleMatchType; label: string; hint: string }[] = [
+  { value: 'contains', label: 'Contains', hint: 'Matches if the text appears anywhere, e.g. STARBUCKS' },
+  { value: 'equals', label: 'Equals', hint: 'Matches only the exact text, e.g. UBER (not UBER EATS)' },
+  { value: 'starts-with', label: 'Starts with', hint: 'Matches text at the beginning, e.g. SQ *' },
+  { value: 'ends-with', label: 'Ends with', hint: 'Matches text at the end, e.g. SEATTLE WA' },
+  { value: 'wildcard', label: 'Wildcard', hint: '* is any text and ? is one character, e.g. AMZN Mktp*' },
+  { value: 'regex', label: 'Regular expression', hint: 'A PostgreSQL regular expression, e.g. ^UBER(?! EATS), with \\y for a word boundary' },
+]
+
+export const RULE_MATCH_TYPE_LABELS = Object.fromEntries(
+  RULE_MATCH_TYPES.map(t => [t.value, t.label])
+) as Record<RuleMatchType, string>
+
+export type RuleConditionLogic = 'all' | 'any'
+
+export type AmountOperator = 'equals' | 'between' | 'less-than' | 'greater-than'
+
+/**
+ * Extra conditions a rule can have besides its pattern.
+ * Amounts are compared without sign, since the sign depends on the account type.
+ */
+export type RuleCondition =
+  | { type: 'amount'; operator: AmountOperator; value: number; max?: number }
+  | { type: 'account'; accountIds: string[] }
+  | { type: 'direction'; direction: 'expense' | 'income' }
+  | { type: 'day-of-month'; from: number; to: number }
+
+export const RULE_CONDITION_TYPES: { value: RuleCondition['type']; label: string }[] = [
+  { value: 'amount', label: 'Amount' },
+  { value: 'account', label: 'Account' },
+  { value: 'direction', label: 'Expense or income' },
+  { value: 'day-of-month', label: 'Day of month' },
+]
+
+export const AMOUNT_OPERATOR_LABELS: Record<AmountOperator, string> = {
+  'equals': 'equals',
+  'between': 'between',
+  'less-than': 'under',
+  'greater-than': 'over',
+}
+
+export interface RuleMatchInput {
+  description: string
+  cardNumber?: string | null
+  amount?: number | null
+  date?: string | null // YYYY-MM-DD
+  accountId?: string | null
+}
+
+/**
+ * Returns an error message when the pattern can't be used with the match type, otherwise null.
+ * Regular expressions are only checked by the database, whose dialect runs them
+ * (validateRulePatternOnServer in useRules).
+ */
+export function validateRulePattern(pattern: string, matchType: RuleMatchType): string | null {
+  if (!pattern.trim()) return 'Pattern is required'
+
+  if (matchType === 'wildcard' && /^[*?]*$/.test(pattern.trim())) {
+    return 'A wildcard pattern needs some text besides * and ?'
+  }
+
+  return null
+}
+
+export function createDefaultCondition(type: RuleCondition['type']): RuleCondition {
+  switch (type) {
+    case 'amount':
+      return { type, operator: 'less-than', value: 0 }
+    case 'account':
+      return { type, accountIds: [] }
+    case 'direction':
+      return { type, direction: 'expense' }
+    case 'day-of-month':
+      return { type, from: 1, to: 31 }
+  }
+}
+
+/**
+ * Returns an error message for the first condition that can't be evaluated, otherwise null
+ */
+export function validateRuleConditions(conditions: RuleCondition[]): string | null {
+  for (const condition of conditions) {
+    if (condition.type === 'amount') {
+      if (isNaN(condition.value) || condition.value < 0) return 'Amounts must be zero or more'
+      if (condition.operator === 'between' && (condition.max === undefined || isNaN(condition.max) || condition.max < condition.value)) {
+        return 'The upper amount must be at least the lower amount'
+      }
+    }
+    if (condition.type === 'account' && condition.accountIds.length === 0) {
+      return 'Choose at least one account for the account condition'
+    }
+    if (condition.type === 'day-of-month') {
+      const valid = (day: number) => Number.isInteger(day) && day >= 1 && day <= 31
+      if (!valid(condition.from) || !valid(condition.to)) return 'Days of the month must be between 1 and 31'
+    }
+  }
+
+  return null
+}
+
+export function describeCondition(condition: RuleCondition, getAccountName: (id: string) => string): string {
+  switch (condition.type) {
+    case 'amount':
+      return condition.operator === 'between'
+        ? `Amount between $${condition.value.toFixed(2)} and $${(condition.max ?? condition.value).toFixed(2)}`
+        : `Amount ${AMOUNT_OPERATOR_LABELS[condition.operator]} $${condition.value.toFixed(2)}`
+    case 'account':
+      return `Account is ${condition.accountIds.map(getAccountName).join(' or ')}`
+    case 'direction':
+      return condition.direction === 'expense' ? 'Is an expense' : 'Is income'
+    case 'day-of-month':
+      return `Day ${condition.from}–${condition.to} of the month`
+    default:
+      return ''
+  }
+}
+
+/**
+ * Evaluation order: lowest priority number first, oldest first on ties
+ */
+export function sortRulesByPriority(rules: Rule[]): Rule[] {
+  return [...rules].sort((a, b) =>
+    (a.priority ?? 0) - (b.priority ?? 0) || a.created_at.localeCompare(b.created_at)
+  )
+}
+
+// What the rules did to one transaction, as returned by the database
+export interface RuleEvaluation {
+  categoryId: string | null
+  memberId: string | null
+  vendor: string | null // Display vendor overriding extractVendor
+  tags: string[]
+  note: string | null
+  isTransfer: boolean
+  isReimbursable: boolean
+  matchedRuleIds: string[]
+}
+
+/**
+ * Whether a rule does anything besides matching
+ */
+export function hasRuleActions(rule: Pick<Rule, 'category_id' | 'member_id' | 'set_vendor' | 'add_tags' | 'add_note' | 'mark_transfer' | 'mark_reimbursable'>): boolean {
+  return Boolean(
+    rule.category_id || rule.member_id || rule.set_vendor || rule.add_tags?.length ||
+    rule.add_note || rule.mark_transfer || rule.mark_reimbursable
+  )
+}
+
+/**
+ * Splits a comma-separated tag list, dropping blanks and repeats
+ */
+export function parseTags(value: string): string[] {
+  return [...new Set(value.split(',').map(tag => tag.trim()).filter(Boolean))]
+}
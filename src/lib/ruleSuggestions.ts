@@ -0,0 +1,115 @@
+/**
+ * Rule Suggestions
+ *
+ * Proposes rules from how transactions have been categorized by hand. Transactions
+ * are grouped by vendor (see extractVendor); a vendor whose transactions almost
+ * always end up in the same category becomes a suggested rule with a short
+ * pattern, instead of the full raw description that rarely matches next month's variant.
+ */
+
+import type { TransactionWithDetails } from '@/hooks/useTransactions'
+import { extractVendor } from './vendorExtraction'
+
+export const MIN_SUGGESTION_MATCHES = 3
+export const MIN_SUGGESTION_CONSISTENCY = 0.9 // Share of the vendor's transactions in the top category
+
+// Shorter patterns match too much (e.g. "SQ")
+const MIN_PATTERN_LENGTH = 3
+
+export interface RuleSuggestion {
+  key: string // Stable across visits, used to remember dismissals
+  vendor: string
+  pattern: string
+  categoryId: string
+  memberId: string | null // Only when every transaction has the same member
+  matchCount: number
+  consistency: number // 0-1
+}
+
+export function createSuggestionKey(pattern: string, categoryId: string): string {
+  return `${pattern.toLowerCase()}|${categoryId}`
+}
+
+/**
+ * Text every description contains: the vendor when it appears as-is, otherwise the
+ * words the descriptions start with. Null when there's nothing usable.
+ */
+function getSuggestionPattern(vendor: string, descriptions: string[]): string | null {
+  const lowerVendor = vendor.toLowerCase()
+  if (vendor.length >= MIN_PATTERN_LENGTH && descriptions.every(d => d.toLowerCase().includes(lowerVendor))) {
+    return vendor
+  }
+
+  const [first, ...rest] = descriptions.map(d => d.trim().split(/\s+/))
+  const commonWords: string[] = []
+  for (let i = 0; i < first.length; i++) {
+    if (!rest.every(words => words[i]?.toLowerCase() === first[i].toLowerCase())) break
+    commonWords.push(first[i])
+  }
+
+  const prefix = commonWords.join(' ')
+  return prefix.length >= MIN_PATTERN_LENGTH ? prefix : null
+}
+
+/**
+ * transactions should be the ones categorized by hand - rule-categorized ones would
+ * only suggest the rules that already exist. Vendors an existing rule already
+ * matches (ruleMatchedIds, the transactions any saved rule matches) are left out,
+ * as are dismissed suggestions.
+ */
+export function suggestRules(
+  transactions: TransactionWithDetails[],
+  ruleMatchedIds: Set<string>,
+  dismissedKeys: Set<string>
+): RuleSuggestion[] {
+  const byVendor = new Map<string, TransactionWithDetails[]>()
+  for (const transaction of transactions) {
+    if (!transaction.category_id) continue
+
+    const vendor = extractVendor(transaction.description)
+    if (!vendor) continue
+
+    const key = vendor.toLowerCase()
+    const group = byVendor.get(key) || []
+    group.push(transaction)
+    byVendor.set(key, group)
+  }
+
+  const suggestions: RuleSuggestion[] = []
+
+  for (const group of byVendor.values()) {
+    if (group.length < MIN_SUGGESTION_MATCHES) continue
+    if (group.some(t => ruleMatchedIds.has(t.id))) continue
+
+    const categoryCounts = new Map<string, number>()
+    group.forEach(t => categoryCounts.set(t.category_id as string, (categoryCounts.get(t.category_id as string) || 0) + 1))
+    const [categoryId, count] = [...categoryCounts.entries()].sort((a, b) => b[1] - a[1])[0]
+
+    const consistency = count / group.length
+    if (consistency < MIN_SUGGESTION_CONSISTENCY) continue
+
+    const inCategory = group.filter(t => t.category_id === categoryId)
+    const vendor = extractVendor(group[0].description)
+    const pattern = getSuggestionPattern(vendor, group.map(t => t.description))
+    if (!pattern) continue
+
+    // Vendors sharing their first words can end up with the same pattern
+    const key = createSuggestionKey(pattern, categoryId)
+    if (dismissedKeys.has(key) || suggestions.some(s => s.key === key)) continue
+
+    const memberIds = new Set(inCategory.map(t => t.member_id))
+    const [memberId] = memberIds.size === 1 ? [...memberIds] : [null]
+
+    suggestions.push({
+      key,
+      vendor,
+      pattern,
+      categoryId,
+      memberId: memberId || null,
+      matchCount: group.length,
+      consistency,
+    })
+  }
+
+  return suggestions.sort((a, b) => b.matchCount - a.matchCount || b.consistency - a.consistency)
+}
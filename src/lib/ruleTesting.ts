@@ -0,0 +1,76 @@
+/**
+ * Rule Testing
+ *
+ * Shows what a rule being written would catch among existing transactions and
+ * how it interacts with the other rules. Two rules overlap when both match a
+ * transaction; the earlier one shadows the later one when it stops processing
+ * or sets the same field (category or member), since the later rule can then
+ * no longer change it.
+ */
+
+import type { Rule } from '@/hooks/useRules'
+import type { TransactionWithDetails } from '@/hooks/useTransactions'
+import { sortRulesByPriority } from './ruleMatching'
+
+export interface RuleOverlap {
+  rule: Rule
+  count: number // Transactions both rules match
+}
+
+export interface RuleTestResult {
+  matchCount: number // Every transaction the draft matches
+  // The matches among the loaded transactions; older ones that weren't loaded are only counted
+  matches: TransactionWithDetails[]
+  // Loaded matches that already have a different category than the rule would set
+  recategorizedCount: number
+  shadowedBy: RuleOverlap[]
+  shadows: RuleOverlap[]
+}
+
+function shadowsRule(earlier: Rule, later: Rule): boolean {
+  return Boolean(
+    earlier.stop_processing ||
+    (earlier.category_id && later.category_id) ||
+    (earlier.member_id && later.member_id)
+  )
+}
+
+/**
+ * Tests a draft rule against transactions. otherRules should not contain the draft;
+ * its place in the evaluation order comes from its priority. matchedIds is which
+ * transactions each rule matches, as matchRulesOnServer returns it for the draft and
+ * the other rules; overlaps are counted from it, so they include transactions that
+ * aren't loaded.
+ */
+export function testRule(
+  draft: Rule,
+  otherRules: Rule[],
+  transactions: TransactionWithDetails[],
+  matchedIds: Map<string, Set<string>>
+): RuleTestResult {
+  const ordered = sortRulesByPriority([...otherRules, draft])
+  const draftIndex = ordered.indexOf(draft)
+  const shadowedBy: RuleOverlap[] = []
+  const shadows: RuleOverlap[] = []
+
+  const draftIds = matchedIds.get(draft.id) || new Set<string>()
+  const matches = transactions.filter(t => draftIds.has(t.id))
+  const recategorizedCount = matches.filter(t =>
+    draft.category_id && t.category_id && t.category_id !== draft.category_id
+  ).length
+
+  ordered.forEach((rule, index) => {
+    if (rule === draft) return
+
+    const [earlier, later, overlaps] = index < draftIndex
+      ? [rule, draft, shadowedBy]
+      : [draft, rule, shadows]
+    if (!shadowsRule(earlier, later)) return
+
+    const ruleIds = matchedIds.get(rule.id)
+    const count = ruleIds ? [...draftIds].filter(id => ruleIds.has(id)).length : 0
+    if (count > 0) overlaps.push({ rule, count })
+  })
+
+  return { matchCount: draftIds.size, matches, recategorizedCount, shadowedBy, shadows }
+}
@@ -0,0 +1,66 @@
+/**
+ * Spreadsheet Parsing
+ *
+ * Reads .xlsx/.xls exports into the same header/row form as CSV files,
+ * so they go through the same column mapping and preview. The SheetJS library is
+ * large, so it is only loaded once a spreadsheet is actually picked.
+ */
+
+import type { CellObject } from 'xlsx'
+import { buildParsedTable, type CSVFileOptions, type ParsedTable } from './csvParsing'
+
+/**
+ * Reads one sheet of a workbook, skipping preamble rows before the header row
+ */
+export async function parseSpreadsheetFile(file: File, options: CSVFileOptions): Promise<ParsedTable> {
+  const [XLSX, buffer] = await Promise.all([import('xlsx'), file.arrayBuffer()])
+  const workbook = XLSX.read(buffer, { type: 'array', cellNF: true })
+
+  const sheetNames = workbook.SheetNames
+  const sheetName = sheetNames.includes(options.sheetName) ? options.sheetName : sheetNames[0]
+  const sheet = sheetName ? workbook.Sheets[sheetName] : undefined
+
+  if (!sheet || !sheet['!ref']) {
+    return { headers: [], rows: [], leadingLines: [], sheetNames }
+  }
+
+  const range = XLSX.utils.decode_range(sheet['!ref'])
+  const lines: string[][] = []
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const line: string[] = []
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      line.push(cellToText(sheet[XLSX.utils.encode_cell({ r, c })], XLSX.SSF))
+    }
+
+    // Match the CSV parser, which drops blank lines
+    if (line.some(cell => cell.trim() !== '')) {
+      lines.push(line)
+    }
+  }
+
+  return { ...buildParsedTable(lines, options.headerRowOffset), sheetNames }
+}
+
+/**
+ * Converts a cell to the text the CSV parsers expect.
+ * Dates become YYYY-MM-DD from the serial number (not the display format, which
+ * varies by locale) and numbers keep full precision without thousands separators.
+ */
+function cellToText(cell: CellObject | undefined, SSF: typeof import('xlsx').SSF): string {
+  if (!cell || cell.v === undefined || cell.v === null) return ''
+
+  if (cell.t === 'n' && typeof cell.v === 'number') {
+    if (cell.z && SSF.is_date(cell.z)) {
+      const date = SSF.parse_date_code(cell.v)
+      return `${date.y}-${String(date.m).padStart(2, '0')}-${String(date.d).padStart(2, '0')}`
+    }
+    return String(cell.v)
+  }
+
+  if (cell.t === 'b') return cell.v ? 'TRUE' : 'FALSE'
+  if (cell.t === 'e') return ''
+  if (cell.v instanceof Date) return cell.v.toISOString().split('T')[0]
+
+  return String(cell.w ?? cell.v).trim()
+}
@@ -0,0 +1,104 @@
+/**
+ * Statement Import
+ *
+ * Shared types and helpers for bank statement formats that carry their
+ * own structure (OFX/QFX, QIF, CAMT.053, MT940) and therefore skip the CSV column mapping step.
+ */
+
+import { createTransactionHash } from './vendorExtraction'
+
+export type StatementFormat = 'csv' | 'xlsx' | 'ofx' | 'qif' | 'camt' | 'mt940'
+
+export interface StatementTransaction {
+  date: string | null // YYYY-MM-DD, null when the file's date is unreadable (see dateText)
+  description: string
+  amount: number | null // null when the file's amount is unreadable (see amountText)
+  dateText?: string // As written in the file, kept for rows whose date or amount couldn't be read
+  amountText?: string
+  externalId?: string | null // Bank-assigned unique id (OFX FITID, CAMT/MT940 bank reference)
+  valueDate?: string | null // YYYY-MM-DD, when it differs from the booking date (CAMT/MT940)
+  counterparty?: string | null // Name of the other party (CAMT/MT940)
+  remittanceInfo?: string | null // Payment reference text (CAMT/MT940)
+  category?: string | null // Category path from the file, e.g. "Auto:Fuel" (QIF)
+  splitIndex?: number // Position within a split transaction (QIF)
+}
+
+/**
+ * Detects the statement format from the file name, falling back to CSV
+ */
+export function detectStatementFormat(fileName: string): StatementFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase() || ''
+
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx'
+  if (extension === 'qif') return 'qif'
+  if (extension === 'xml' || extension === 'camt') return 'camt' // .xml is checked further by detectFileFormat
+  if (extension === 'sta' || extension === 'mt940' || extension === '940') return 'mt940'
+  if (extension === 'xlsx' || extension === 'xls') return 'xlsx'
+
+  return 'csv'
+}
+
+// Enough of the file to reach the root element past any XML declaration and comments
+const XML_SNIFF_LENGTH = 4096
+
+/**
+ * Which statement an .xml file holds: CAMT.053 by its Document namespace, or OFX 2.x
+ * (plain XML). Null for any other XML.
+ */
+export function detectXmlStatementFormat(content: string): StatementFormat | null {
+  if (/urn:iso:std:iso:20022:tech:xsd:camt\.053\./.test(content)) return 'camt'
+  if (/<OFX>/i.test(content)) return 'ofx'
+  return null
+}
+
+/**
+ * detectStatementFormat, but .xml files are identified by their content, since
+ * the extension alone says nothing about which statement (if any) they hold
+ */
+export async function detectFileFormat(file: File): Promise<StatementFormat> {
+  const format = detectStatementFormat(file.name)
+  if (!file.name.toLowerCase().endsWith('.xml')) return format
+
+  const xmlFormat = detectXmlStatementFormat(await file.slice(0, XML_SNIFF_LENGTH).text())
+  if (!xmlFormat) {
+    throw new Error('Unsupported XML file: only CAMT.053 and OFX statements can be imported')
+  }
+  return xmlFormat
+}
+
+/**
+ * Creates the dedupe key for a transaction that has a bank-assigned id.
+ * Prefixed so it can never collide with a hash from createTransactionHash.
+ */
+export function createExternalIdHash(format: StatementFormat, externalId: string): string {
+  return `${format}:${externalId.trim()}`
+}
+
+/**
+ * Creates the dedupe key for a parsed statement row.
+ * Uses the bank id when there is one; otherwise falls back to the content hash,
+ * keeping split lines of the same transaction distinct.
+ */
+export function createStatementHash(
+  format: StatementFormat,
+  row: StatementTransaction,
+  accountId: string
+): string {
+  if (row.externalId) {
+    return createExternalIdHash(format, row.externalId)
+  }
+
+  const description = row.splitIndex !== undefined
+    ? `${row.description}#split${row.splitIndex}`
+    : row.description
+
+  return createTransactionHash(row.date, description, row.amount, accountId)
+}
+
+/**
+ * Whether the format is a table of rows that needs column mapping (CSV, spreadsheets)
+ * rather than a structured statement
+ */
+export function isTabularFormat(format: StatementFormat): boolean {
+  return format === 'csv' || format === 'xlsx'
+}
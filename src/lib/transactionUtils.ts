@@ -1,5 +1,8 @@
 import type { TransactionWithDetails } from '@/hooks/useTransactions'
 
+// All the sign helpers need; lets rows that aren't saved yet be checked too
+type SignedTransaction = { amount: number; account?: { account_type: string | null } | null }
+
 /**
  * Determines if a transaction is an expense based on the account type and amount.
  *
@@ -11,7 +14,7 @@ import type { TransactionWithDetails } from '@/hooks/useTransactions'
  *   - Positive amount (credit/deposit) = Income (money added to account)
  *   - Negative amount (debit/withdrawal) = Expense (money removed from account)
  */
-export function isExpense(transaction: TransactionWithDetails): boolean {
+export function isExpense(transaction: SignedTransaction): boolean {
   const accountType = transaction.account?.account_type
   const amount = transaction.amount
 
@@ -31,7 +34,7 @@ export function isExpense(transaction: TransactionWithDetails): boolean {
 /**
  * Determines if a transaction is income based on the account type and amount.
  */
-export function isIncome(transaction: TransactionWithDetails): boolean {
+export function isIncome(transaction: SignedTransaction): boolean {
   const accountType = transaction.account?.account_type
   const amount = transaction.amount
 
@@ -48,6 +51,14 @@ export function isIncome(transaction: TransactionWithDetails): boolean {
   return amount > 0
 }
 
+/**
+ * Transfers between your own accounts (marked by a rule or by hand) would count twice,
+ * once as an expense and once as income, so reports leave them out
+ */
+export function isExcludedFromReports(transaction: { is_transfer?: boolean }): boolean {
+  return Boolean(transaction.is_transfer)
+}
+
 /**
  * Gets the absolute value of a transaction amount for display purposes.
  * All expenses and income should be shown as positive values in the UI.
@@ -1,15 +1,25 @@
 import { useState } from 'react'
 import { useAccounts } from '@/hooks/useAccounts'
+import { useAccountCards } from '@/hooks/useAccountCards'
+import { useMembers } from '@/hooks/useMembers'
 
 const ACCOUNT_TYPES = ['Checking', 'Savings', 'Credit Card', 'Investment', 'Other']
 
+const EMPTY_FORM = { name: '', accountType: '', invertAmounts: false, importFilePattern: '' }
+
+const EMPTY_CARD_FORM = { cardSuffix: '', accountId: '', memberId: '' }
+
 export default function Accounts() {
   const { accounts, loading, error, addAccount, updateAccount, deleteAccount } = useAccounts()
   const [isAdding, setIsAdding] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
-  const [formData, setFormData] = useState({ name: '', accountType: '' })
+  const [formData, setFormData] = useState(EMPTY_FORM)
   const [formError, setFormError] = useState('')
   const [submitting, setSubmitting] = useState(false)
+  const { cards, addCard, deleteCard } = useAccountCards()
+  const { members } = useMembers()
+  const [cardForm, setCardForm] = useState(EMPTY_CARD_FORM)
+  const [cardError, setCardError] = useState('')
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -23,22 +33,23 @@ export default function Accounts() {
     setSubmitting(true)
 
     const accountTypeValue = formData.accountType || null
+    const filePatternValue = formData.importFilePattern.trim() || null
 
     if (editingId) {
-      const { error } = await updateAccount(editingId, formData.name, accountTypeValue)
+      const { error } = await updateAccount(editingId, formData.name, accountTypeValue, formData.invertAmounts, filePatternValue)
       if (error) {
         setFormError(error)
       } else {
         setEditingId(null)
-        setFormData({ name: '', accountType: '' })
+        setFormData(EMPTY_FORM)
         setIsAdding(false)
       }
     } else {
-      const { error } = await addAccount(formData.name, accountTypeValue)
+      const { error } = await addAccount(formData.name, accountTypeValue, formData.invertAmounts, filePatternValue)
       if (error) {
         setFormError(error)
       } else {
-        setFormData({ name: '', accountType: '' })
+        setFormData(EMPTY_FORM)
         setIsAdding(false)
       }
     }
@@ -48,7 +59,12 @@ export default function Accounts() {
 
   const handleEdit = (account: typeof accounts[0]) => {
     setEditingId(account.id)
-    setFormData({ name: account.name, accountType: account.account_type || '' })
+    setFormData({
+      name: account.name,
+      accountType: account.account_type || '',
+      invertAmounts: account.invert_amounts || false,
+      importFilePattern: account.import_file_pattern || '',
+    })
     setIsAdding(true)
     setFormError('')
   }
@@ -56,7 +72,7 @@ export default function Accounts() {
   const handleCancel = () => {
     setIsAdding(false)
     setEditingId(null)
-    setFormData({ name: '', accountType: '' })
+    setFormData(EMPTY_FORM)
     setFormError('')
   }
 
@@ -69,6 +85,41 @@ export default function Accounts() {
     }
   }
 
+  const handleAddCard = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCardError('')
+
+    const cardSuffix = cardForm.cardSuffix.trim()
+    if (!/^\d{4}$/.test(cardSuffix)) {
+      setCardError('Enter the last four digits of the card')
+      return
+    }
+    if (!cardForm.accountId) {
+      setCardError('Choose the account for this card')
+      return
+    }
+    if (cards.some(c => c.card_suffix === cardSuffix)) {
+      setCardError(`A card ending in ${cardSuffix} is already set up`)
+      return
+    }
+
+    const { error } = await addCard(cardForm.accountId, cardSuffix, cardForm.memberId || null)
+    if (error) {
+      setCardError(error)
+    } else {
+      setCardForm(EMPTY_CARD_FORM)
+    }
+  }
+
+  const handleDeleteCard = async (id: string, cardSuffix: string) => {
+    if (confirm(`Remove the card ending in ${cardSuffix}?`)) {
+      const { error } = await deleteCard(id)
+      if (error) {
+        alert(`Error: ${error}`)
+      }
+    }
+  }
+
   if (loading) {
     return (
       <div className="p-6">
@@ -143,6 +194,38 @@ export default function Accounts() {
                 ))}
               </select>
             </div>
+            <div>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.invertAmounts}
+                  onChange={(e) => setFormData({ ...formData, invertAmounts: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  disabled={submitting}
+                />
+                <span className="text-sm font-medium text-gray-700">Invert amount signs on import</span>
+              </label>
+              <p className="mt-1 text-sm text-gray-500">
+                Check this if the bank's exports use the opposite sign from this app (credit cards: purchases positive; bank accounts: withdrawals negative).
+              </p>
+            </div>
+            <div>
+              <label htmlFor="importFilePattern" className="block text-sm font-medium text-gray-700 mb-1">
+                Statement File Name Pattern (Optional)
+              </label>
+              <input
+                id="importFilePattern"
+                type="text"
+                value={formData.importFilePattern}
+                onChange={(e) => setFormData({ ...formData, importFilePattern: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g., *chase*1234*"
+                disabled={submitting}
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                When several statements are imported at once, files whose name matches this pattern go to this account. Use * for any text.
+              </p>
+            </div>
             <div className="flex space-x-3">
               <button
                 type="submit"
@@ -206,6 +289,11 @@ export default function Accounts() {
                     ) : (
                       <span className="text-gray-400">—</span>
                     )}
+                    {account.invert_amounts && (
+                      <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                        Signs inverted
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
                     <button
@@ -227,6 +315,111 @@ export default function Accounts() {
           </table>
         </div>
       )}
+
+      {accounts.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-xl font-semibold mb-2">Cards on Shared Statements</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            When a statement lists several cards (e.g. authorized users on a family card), rows whose card number
+            ends in these digits are imported into the chosen account and assigned to the card holder.
+          </p>
+
+          <form onSubmit={handleAddCard} className="mb-4 p-4 bg-white rounded-lg shadow">
+            {cardError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+                {cardError}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={4}
+                value={cardForm.cardSuffix}
+                onChange={(e) => setCardForm({ ...cardForm, cardSuffix: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Last 4 digits"
+              />
+              <select
+                value={cardForm.accountId}
+                onChange={(e) => setCardForm({ ...cardForm, accountId: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Account...</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={cardForm.memberId}
+                onChange={(e) => setCardForm({ ...cardForm, memberId: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Card holder (optional)...</option>
+                {members.map((member) => (
+                  <option key={member.id} value={member.id}>
+                    {member.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                Add Card
+              </button>
+            </div>
+          </form>
+
+          {cards.length > 0 && (
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Card
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Account
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Card Holder
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {cards.map((card) => (
+                    <tr key={card.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        •••• {card.card_suffix}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {accounts.find(a => a.id === card.account_id)?.name || '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {members.find(m => m.id === card.member_id)?.name || <span className="text-gray-400">—</span>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          onClick={() => handleDeleteCard(card.id, card.card_suffix)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
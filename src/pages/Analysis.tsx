@@ -3,7 +3,7 @@ import { useTransactions } from '@/hooks/useTransactions'
 import { useCategories } from '@/hooks/useCategories'
 import { useMembers } from '@/hooks/useMembers'
 import { useAccounts } from '@/hooks/useAccounts'
-import { isExpense, isIncome } from '@/lib/transactionUtils'
+import { isExpense, isIncome, isExcludedFromReports } from '@/lib/transactionUtils'
 
 type GroupBy = 'parent_category' | 'subcategory' | 'member' | 'vendor' | 'account'
 type ChartType = 'line' | 'bar' | 'pie'
@@ -34,6 +34,8 @@ export default function Analysis() {
   // Filter transactions by date range
   const filteredTransactions = useMemo(() => {
     return transactions.filter(t => {
+      if (isExcludedFromReports(t)) return false
+
       const txDate = new Date(t.date)
       const start = new Date(startDate)
       const end = new Date(endDate)
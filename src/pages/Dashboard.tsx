@@ -3,7 +3,7 @@ import { useCategories } from '@/hooks/useCategories'
 import { useMembers } from '@/hooks/useMembers'
 import { useAccounts } from '@/hooks/useAccounts'
 import { useMemo, useState } from 'react'
-import { isExpense, isIncome } from '@/lib/transactionUtils'
+import { isExpense, isIncome, isExcludedFromReports } from '@/lib/transactionUtils'
 
 type GroupBy = 'parent_category' | 'subcategory' | 'member' | 'vendor' | 'account'
 type ChartType = 'line' | 'bar' | 'pie'
@@ -31,6 +31,8 @@ export default function Dashboard() {
 
   const filteredTransactions = useMemo(() => {
     return transactions.filter(t => {
+      if (isExcludedFromReports(t)) return false
+
       const txDate = new Date(t.date)
       const start = new Date(startDate)
       const end = new Date(endDate)
@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react'
+import { useTransactions, type TransactionWithDetails } from '@/hooks/useTransactions'
+import { useDuplicateDismissals } from '@/hooks/useDuplicateDismissals'
+import { findDuplicatePairs, createPairKey, DUPLICATE_DATE_WINDOW_DAYS } from '@/lib/duplicateDetection'
+
+export default function Duplicates() {
+  const { transactions, loading, error, mergeTransactions } = useTransactions(undefined, { all: true })
+  const { dismissals, loading: dismissalsLoading, dismissPair } = useDuplicateDismissals()
+  const [busyPair, setBusyPair] = useState<string | null>(null)
+
+  const pairs = useMemo(() => {
+    const dismissedKeys = new Set(dismissals.map(d => createPairKey(d.transaction_id_a, d.transaction_id_b)))
+    return findDuplicatePairs(transactions, dismissedKeys)
+  }, [transactions, dismissals])
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount)
+  }
+
+  const handleKeep = async (pairKey: string, keep: TransactionWithDetails, remove: TransactionWithDetails) => {
+    if (!confirm(`Keep "${keep.description}" and delete "${remove.description}"?`)) return
+
+    setBusyPair(pairKey)
+    const { error } = await mergeTransactions(keep.id, remove.id)
+    setBusyPair(null)
+
+    if (error) {
+      alert(`Error: ${error}`)
+    }
+  }
+
+  const handleDismiss = async (pairKey: string, first: TransactionWithDetails, second: TransactionWithDetails) => {
+    setBusyPair(pairKey)
+    const { error } = await dismissPair(first.id, second.id)
+    setBusyPair(null)
+
+    if (error) {
+      alert(`Error: ${error}`)
+    }
+  }
+
+  if (loading || dismissalsLoading) {
+    return (
+      <div className="p-6">
+        <div className="text-lg">Looking for possible duplicates...</div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="text-red-600">Error: {error}</div>
+      </div>
+    )
+  }
+
+  const renderTransaction = (
+    pairKey: string,
+    transaction: TransactionWithDetails,
+    other: TransactionWithDetails
+  ) => (
+    <div className="flex-1 border rounded-md p-4 space-y-1">
+      <div className="text-sm text-gray-500">{transaction.date}</div>
+      <div className="font-medium text-gray-900">{transaction.description}</div>
+      <div className="text-lg font-semibold">{formatCurrency(transaction.amount)}</div>
+      <div className="text-sm text-gray-600">
+        {transaction.category?.name || <span className="text-gray-400">Uncategorized</span>}
+        {transaction.member && <span> · {transaction.member.name}</span>}
+      </div>
+      <button
+        onClick={() => handleKeep(pairKey, transaction, other)}
+        disabled={busyPair !== null}
+        className="mt-2 px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        Keep This One
+      </button>
+    </div>
+  )
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Possible Duplicates</h1>
+        <p className="text-gray-600 mt-1">
+          Transactions in the same account with the same amount, a similar vendor and dates
+          within {DUPLICATE_DATE_WINDOW_DAYS} days of each other. Keeping one merges its category
+          and member with the other and deletes the other.
+        </p>
+      </div>
+
+      {pairs.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <p className="text-gray-500">No possible duplicates found</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {pairs.map(({ key, first, second, daysApart }) => (
+            <div key={key} className="bg-white rounded-lg shadow p-4 space-y-3">
+              <div className="flex justify-between items-center">
+                <div className="text-sm text-gray-600">
+                  <strong>{first.account?.name || 'Unknown account'}</strong>
+                  {' '}· {daysApart === 0 ? 'same day' : `${daysApart} day${daysApart !== 1 ? 's' : ''} apart`}
+                </div>
+                <button
+                  onClick={() => handleDismiss(key, first, second)}
+                  disabled={busyPair !== null}
+                  className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                >
+                  {busyPair === key ? 'Saving...' : 'Not a Duplicate'}
+                </button>
+              </div>
+              <div className="flex flex-col md:flex-row gap-4">
+                {renderTransaction(key, first, second)}
+                {renderTransaction(key, second, first)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
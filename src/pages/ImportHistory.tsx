@@ -0,0 +1,137 @@
+import { useState } from 'react'
+import { useImportBatches, type ImportBatchWithAccount } from '@/hooks/useImportBatches'
+import { useTransactions } from '@/hooks/useTransactions'
+
+export default function ImportHistory() {
+  const { batches, loading, error, rollbackBatch } = useImportBatches()
+  const { refetch: refetchTransactions } = useTransactions()
+  const [rollingBack, setRollingBack] = useState<string | null>(null)
+
+  const handleRollback = async (batch: ImportBatchWithAccount) => {
+    const accountName = batch.account?.name || 'the account'
+    if (!confirm(
+      `Undo the import of "${batch.file_name}"? This deletes the ${batch.imported_count} transaction${batch.imported_count !== 1 ? 's' : ''} it added to ${accountName}, including any categories you assigned since.`
+    )) {
+      return
+    }
+
+    setRollingBack(batch.id)
+    const { error, count } = await rollbackBatch(batch.id)
+    setRollingBack(null)
+
+    if (error) {
+      alert(`Error: ${error}`)
+    } else {
+      await refetchTransactions()
+      alert(`Removed ${count} transaction${count !== 1 ? 's' : ''}.`)
+    }
+  }
+
+  const formatDateTime = (value: string) => new Date(value).toLocaleString()
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="text-lg">Loading import history...</div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="text-red-600">Error: {error}</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Import History</h1>
+        <p className="text-gray-600 mt-1">
+          Every imported file, and what it added. Undo an import to remove all of its transactions at once.
+        </p>
+      </div>
+
+      {batches.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <p className="text-gray-500">No imports yet. Import a statement from the Transactions page.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Imported
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  File
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Account
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rows
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Added
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Duplicates
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rejected
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {batches.map((batch) => (
+                <tr key={batch.id} className={batch.rolled_back_at ? 'bg-gray-50 text-gray-400' : 'hover:bg-gray-50'}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className="text-gray-900">{formatDateTime(batch.created_at)}</div>
+                    {batch.imported_by_email && (
+                      <div className="text-xs text-gray-500">by {batch.imported_by_email}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                    {batch.file_name}
+                    <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700 uppercase">
+                      {batch.file_format}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {batch.account?.name || '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{batch.row_count}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{batch.imported_count}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{batch.duplicate_count}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{batch.rejected_count}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {batch.rolled_back_at ? (
+                      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-gray-200 text-gray-700">
+                        Undone {new Date(batch.rolled_back_at).toLocaleDateString()}
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => handleRollback(batch)}
+                        disabled={rollingBack !== null}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                      >
+                        {rollingBack === batch.id ? 'Undoing...' : 'Undo Import'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,14 +2,23 @@ import { useState, useMemo } from 'react'
 import { useTransactions } from '@/hooks/useTransactions'
 import { useCategories } from '@/hooks/useCategories'
 import { useMembers } from '@/hooks/useMembers'
-import { useRules } from '@/hooks/useRules'
+import { useRules, evaluateTransactionsOnServer } from '@/hooks/useRules'
+import { useHousehold } from '@/hooks/useHousehold'
+import { useCategoryClassifier } from '@/hooks/useCategoryClassifier'
+import { recordRuleHits } from '@/hooks/useRuleHits'
+import type { RuleEvaluation } from '@/lib/ruleMatching'
+import { getRuleEffectUpdates } from '@/lib/ruleBackfill'
 import { isExpense } from '@/lib/transactionUtils'
+import { predictCategories } from '@/lib/categoryClassifier'
+import CategoryPredictions from '@/components/transactions/CategoryPredictions'
 
 export default function Inbox() {
   const { transactions, loading, updateTransaction, refetch: refetchTransactions } = useTransactions()
-  const { categories, getParentCategories, getSubcategories, getCategoryDisplayName } = useCategories()
+  const { categories, getParentCategories, getSubcategories, getCategoryDisplayName, getCategoryById } = useCategories()
   const { members } = useMembers()
   const { addRule } = useRules()
+  const { household } = useHousehold()
+  const classifier = useCategoryClassifier(transactions)
 
   const [selectedParentCategory, setSelectedParentCategory] = useState('')
   const [selectedSubcategory, setSelectedSubcategory] = useState('')
@@ -26,6 +35,10 @@ export default function Inbox() {
   }, [transactions])
 
   const currentTransaction = uncategorizedTransactions[currentIndex]
+  const predictions = useMemo(
+    () => currentTransaction ? predictCategories(classifier, currentTransaction) : [],
+    [classifier, currentTransaction]
+  )
   const progress = uncategorizedTransactions.length > 0
     ? ((currentIndex / uncategorizedTransactions.length) * 100)
     : 100
@@ -64,31 +77,44 @@ export default function Inbox() {
       // Create rule and apply to existing transactions if requested
       if (createRule && categoryId) {
         // Create the rule
-        await addRule(
+        const rule = await addRule(
           currentTransaction.description,
           categoryId,
           selectedMember || null
         )
 
-        // Find all other uncategorized transactions that match this description
-        const matchingTransactions = transactions.filter(t =>
-          !t.category_id &&
-          t.id !== currentTransaction.id && // Exclude current transaction (already updated)
-          t.description.toLowerCase().includes(currentTransaction.description.toLowerCase())
-        )
-
-        // Apply the categorization to all matching uncategorized transactions
+        // Find all other uncategorized transactions the new rule applies to, evaluated by
+        // the database with the full rule set so higher-priority and stop-processing rules still win
+        const candidates = transactions.filter(t => !t.category_id && t.id !== currentTransaction.id) // Current transaction is already updated
+        const evaluations = household && candidates.length > 0
+          ? await evaluateTransactionsOnServer(household.id, candidates.map(t => t.id))
+          : new Map<string, RuleEvaluation>()
+        const matchingTransactions = candidates.flatMap(t => {
+          const result = evaluations.get(t.id)
+          return result?.matchedRuleIds.includes(rule.id) ? [{ transaction: t, result }] : []
+        })
+
+        // Apply the rules' results to all matching uncategorized transactions
         let updatedCount = 0
-        for (const matchingTx of matchingTransactions) {
+        const hits: { ruleId: string; transactionId: string }[] = []
+        for (const { transaction: matchingTx, result } of matchingTransactions) {
           const { error } = await updateTransaction(matchingTx.id, {
-            category_id: categoryId,
-            member_id: selectedMember || null,
+            category_id: result.categoryId,
+            member_id: result.memberId,
+            ...getRuleEffectUpdates(result, matchingTx),
           })
           if (!error) {
             updatedCount++
+            hits.push(...result.matchedRuleIds.map(ruleId => ({ ruleId, transactionId: matchingTx.id })))
           }
         }
 
+        if (household && hits.length > 0) {
+          await recordRuleHits(household.id, hits, 'inbox').catch(err => {
+            console.warn('[Inbox] Failed to record rule hits:', err)
+          })
+        }
+
         if (updatedCount > 0) {
           alert(`Rule created and applied to ${updatedCount} other matching transaction${updatedCount !== 1 ? 's' : ''}!`)
         }
@@ -115,6 +141,20 @@ export default function Inbox() {
     setProcessing(false)
   }
 
+  const getCategoryName = (categoryId: string) => {
+    const category = getCategoryById(categoryId)
+    return category ? getCategoryDisplayName(category) : 'Unknown'
+  }
+
+  // Fills in the category selects; a subcategory also selects its parent
+  const handleSelectPrediction = (categoryId: string) => {
+    const category = getCategoryById(categoryId)
+    if (!category) return
+
+    setSelectedParentCategory(category.parent_category_id || category.id)
+    setSelectedSubcategory(category.parent_category_id ? category.id : '')
+  }
+
   const handleSkip = () => {
     setSelectedParentCategory('')
     setSelectedSubcategory('')
@@ -221,6 +261,18 @@ export default function Inbox() {
 
           {/* Categorization Form */}
           <div className="space-y-4">
+            {predictions.length > 0 && (
+              <div>
+                <div className="text-sm font-medium text-gray-700 mb-2">Suggested categories</div>
+                <CategoryPredictions
+                  predictions={predictions}
+                  getCategoryName={getCategoryName}
+                  onSelect={handleSelectPrediction}
+                  disabled={processing}
+                />
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* Parent Category */}
               <div>
@@ -0,0 +1,135 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useRules } from '@/hooks/useRules'
+import { useTransactions } from '@/hooks/useTransactions'
+import { useCategories } from '@/hooks/useCategories'
+import { useRuleMatches } from '@/hooks/useRuleMatches'
+import {
+  analyzeRules,
+  RULE_ISSUE_LABELS,
+  RULE_ISSUE_STYLES,
+  type RuleIssueKind,
+} from '@/lib/ruleAnalysis'
+
+const ISSUE_ORDER: RuleIssueKind[] = ['conflicting', 'shadowed', 'orphaned', 'dead']
+
+export default function RuleAnalysis() {
+  const { rules, loading: rulesLoading, deleteRule } = useRules()
+  const { transactions, totalCount, loading: transactionsLoading } = useTransactions()
+  const { categories, loading: categoriesLoading } = useCategories()
+  const { matches, loaded: matchesLoaded, error: matchError } = useRuleMatches(rulesLoading ? null : rules, transactions)
+  const [kindFilter, setKindFilter] = useState<RuleIssueKind | 'all'>('all')
+
+  const issues = useMemo(
+    () => analyzeRules(rules, totalCount, new Set(categories.map((c) => c.id)), matches),
+    [rules, totalCount, categories, matches]
+  )
+
+  const visibleIssues = issues
+    .filter((issue) => kindFilter === 'all' || issue.kind === kindFilter)
+    .sort((a, b) => ISSUE_ORDER.indexOf(a.kind) - ISSUE_ORDER.indexOf(b.kind))
+
+  const handleDelete = async (id: string, pattern: string) => {
+    if (!confirm(`Delete the rule for "${pattern}"?`)) return
+
+    try {
+      await deleteRule(id)
+    } catch (error) {
+      alert(`Error: ${error instanceof Error ? error.message : 'An error occurred'}`)
+    }
+  }
+
+  if (matchError) {
+    return (
+      <div className="p-6">
+        <div className="text-red-600">Could not check the rules: {matchError}</div>
+      </div>
+    )
+  }
+
+  if (rulesLoading || transactionsLoading || categoriesLoading || !matchesLoaded) {
+    return (
+      <div className="p-6">
+        <div className="text-lg">Analyzing rules...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <Link to="/rules" className="text-sm text-blue-600 hover:text-blue-700">
+          ← Back to Rules
+        </Link>
+        <h1 className="text-3xl font-bold mt-2">Rule Analysis</h1>
+        <p className="text-gray-600 mt-1">
+          Checks {rules.length} rule{rules.length !== 1 ? 's' : ''} against each other and
+          against {transactions.length} existing transaction{transactions.length !== 1 ? 's' : ''}.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {ISSUE_ORDER.map((kind) => {
+          const count = issues.filter((issue) => issue.kind === kind).length
+          return (
+            <button
+              key={kind}
+              onClick={() => setKindFilter(kindFilter === kind ? 'all' : kind)}
+              className={`p-4 bg-white rounded-lg shadow text-left ${kindFilter === kind ? 'ring-2 ring-blue-500' : ''}`}
+            >
+              <div className="text-xs text-gray-500 uppercase font-medium">{RULE_ISSUE_LABELS[kind]}</div>
+              <div className="text-2xl font-bold text-gray-900 mt-1">{count}</div>
+            </button>
+          )
+        })}
+      </div>
+
+      {visibleIssues.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <p className="text-gray-500">
+            {issues.length === 0 ? 'No problems found with your rules' : 'No problems of this kind'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issue</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleIssues.map((issue, index) => (
+                <tr key={`${issue.kind}-${issue.rule.id}-${issue.otherRule?.id || index}`}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${RULE_ISSUE_STYLES[issue.kind]}`}>
+                      {RULE_ISSUE_LABELS[issue.kind]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {issue.rule.pattern}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="text-gray-900">{issue.message}</div>
+                    <div className="text-gray-500 mt-1">Suggested fix: {issue.suggestion}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => handleDelete(issue.rule.id, issue.rule.pattern)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
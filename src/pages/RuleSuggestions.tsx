@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useRules } from '@/hooks/useRules'
+import { useTransactions } from '@/hooks/useTransactions'
+import { useCategories } from '@/hooks/useCategories'
+import { useMembers } from '@/hooks/useMembers'
+import { useRuleHits } from '@/hooks/useRuleHits'
+import { useRuleMatches } from '@/hooks/useRuleMatches'
+import { useRuleSuggestionDismissals } from '@/hooks/useRuleSuggestionDismissals'
+import { suggestRules, MIN_SUGGESTION_MATCHES, MIN_SUGGESTION_CONSISTENCY } from '@/lib/ruleSuggestions'
+
+export default function RuleSuggestions() {
+  const { rules, loading: rulesLoading, addRules } = useRules()
+  const { transactions, loading: transactionsLoading } = useTransactions()
+  const { getCategoryById, getCategoryDisplayName } = useCategories()
+  const { members } = useMembers()
+  const { hits, loading: hitsLoading } = useRuleHits()
+  const { dismissals, loading: dismissalsLoading, dismissSuggestions } = useRuleSuggestionDismissals()
+  const { matches, loaded: matchesLoaded, error: matchError } = useRuleMatches(rulesLoading ? null : rules, transactions)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [saving, setSaving] = useState(false)
+
+  const suggestions = useMemo(() => {
+    // Only learn from categories picked by hand
+    const ruleCategorizedIds = new Set(hits.map((hit) => hit.transaction_id))
+    const manuallyCategorized = transactions.filter((t) => !ruleCategorizedIds.has(t.id))
+    const ruleMatchedIds = new Set([...matches.values()].flatMap((ids) => [...ids]))
+    return suggestRules(manuallyCategorized, ruleMatchedIds, new Set(dismissals.map((d) => d.suggestion_key)))
+  }, [transactions, matches, hits, dismissals])
+
+  const getCategoryName = (categoryId: string) => {
+    const category = getCategoryById(categoryId)
+    return category ? getCategoryDisplayName(category) : 'Unknown'
+  }
+
+  const toggleSelected = (key: string) => {
+    const next = new Set(selected)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    setSelected(next)
+  }
+
+  const selectedSuggestions = suggestions.filter((s) => selected.has(s.key))
+
+  const handleAccept = async () => {
+    setSaving(true)
+    try {
+      await addRules(selectedSuggestions.map((s) => ({
+        pattern: s.pattern,
+        categoryId: s.categoryId,
+        memberId: s.memberId,
+      })))
+      setSelected(new Set())
+      alert(`Created ${selectedSuggestions.length} rule${selectedSuggestions.length !== 1 ? 's' : ''}`)
+    } catch (error) {
+      alert(`Error: ${error instanceof Error ? error.message : 'Failed to create rules'}`)
+    }
+    setSaving(false)
+  }
+
+  const handleDismiss = async () => {
+    setSaving(true)
+    const { error } = await dismissSuggestions(selectedSuggestions.map((s) => s.key))
+    setSaving(false)
+
+    if (error) {
+      alert(`Error: ${error}`)
+      return
+    }
+    setSelected(new Set())
+  }
+
+  // Without the matches every vendor an existing rule covers would be suggested again
+  if (matchError) {
+    return (
+      <div className="p-6">
+        <div className="text-red-600">Could not check the existing rules: {matchError}</div>
+      </div>
+    )
+  }
+
+  if (rulesLoading || transactionsLoading || hitsLoading || dismissalsLoading || !matchesLoaded) {
+    return (
+      <div className="p-6">
+        <div className="text-lg">Looking for rule suggestions...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <Link to="/rules" className="text-sm text-blue-600 hover:text-blue-700">
+          ← Back to Rules
+        </Link>
+        <h1 className="text-3xl font-bold mt-2">Suggested Rules</h1>
+        <p className="text-gray-600 mt-1">
+          Vendors with at least {MIN_SUGGESTION_MATCHES} transactions you categorized by hand, at
+          least {Math.round(MIN_SUGGESTION_CONSISTENCY * 100)}% of them the same way, that no rule covers yet.
+        </p>
+      </div>
+
+      {suggestions.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <p className="text-gray-500">No suggestions right now</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setSelected(selected.size === suggestions.length ? new Set() : new Set(suggestions.map((s) => s.key)))}
+              className="text-sm text-blue-600 hover:text-blue-900"
+            >
+              {selected.size === suggestions.length ? 'Select none' : 'Select all'}
+            </button>
+            <button
+              onClick={handleAccept}
+              disabled={saving || selected.size === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Create {selected.size || ''} Rule{selected.size !== 1 ? 's' : ''}
+            </button>
+            <button
+              onClick={handleDismiss}
+              disabled={saving || selected.size === 0}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+            >
+              Dismiss
+            </button>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3" />
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Suggestion</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Matches</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Consistency</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {suggestions.map((suggestion) => (
+                  <tr key={suggestion.key} className="hover:bg-gray-50 cursor-pointer" onClick={() => toggleSelected(suggestion.key)}>
+                    <td className="px-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(suggestion.key)}
+                        onChange={() => toggleSelected(suggestion.key)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      Always categorize <strong>'{suggestion.pattern}'</strong> as{' '}
+                      <strong>{getCategoryName(suggestion.categoryId)}</strong>
+                      {suggestion.memberId && (
+                        <> for <strong>{members.find((m) => m.id === suggestion.memberId)?.name || 'Unknown'}</strong></>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{suggestion.matchCount}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {Math.round(suggestion.consistency * 100)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
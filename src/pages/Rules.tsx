@@ -1,34 +1,161 @@
-import { useState } from 'react'
-import { useRules } from '@/hooks/useRules'
+import { Fragment, useState, useEffect, useMemo, useRef } from 'react'
+import { Link } from 'react-router-dom'
+import { useRules, validateRulePatternOnServer, DRAFT_RULE_ID, type Rule } from '@/hooks/useRules'
 import { useCategories } from '@/hooks/useCategories'
 import { useMembers } from '@/hooks/useMembers'
+import { useAccounts } from '@/hooks/useAccounts'
+import { useRuleHits, type RuleHitWithTransaction } from '@/hooks/useRuleHits'
+import RuleConditionsEditor from '@/components/rules/RuleConditionsEditor'
+import RuleBackfillDialog from '@/components/rules/RuleBackfillDialog'
+import RuleTestPanel from '@/components/rules/RuleTestPanel'
+import RuleImportDialog from '@/components/rules/RuleImportDialog'
+import { createRulesExport, parseRulesExport, type RulesExport } from '@/lib/ruleExport'
+import {
+  RULE_MATCH_TYPES,
+  RULE_MATCH_TYPE_LABELS,
+  validateRulePattern,
+  validateRuleConditions,
+  describeCondition,
+  hasRuleActions,
+  parseTags,
+  type RuleMatchType,
+  type RuleCondition,
+  type RuleConditionLogic,
+} from '@/lib/ruleMatching'
+
+const EMPTY_FORM = {
+  pattern: '',
+  match_type: 'contains' as RuleMatchType,
+  category_id: '',
+  member_id: '',
+  stop_processing: false,
+  conditions: [] as RuleCondition[],
+  condition_logic: 'all' as RuleConditionLogic,
+  set_vendor: '',
+  add_tags: '', // Comma-separated while editing
+  add_note: '',
+  mark_transfer: false,
+  mark_reimbursable: false,
+}
+
+type RuleSort = 'order' | 'most-used' | 'least-used' | 'last-matched'
+type RuleUsageFilter = 'all' | 'unused' | 'stale'
+
+// Rules that haven't matched anything for this long are shown as stale
+const STALE_AFTER_DAYS = 90
 
 export default function Rules() {
-  const { rules, loading, addRule, updateRule, deleteRule } = useRules()
+  const { rules, loading, addRule, addRules, updateRule, deleteRule, reorderRules, refetch: refetchRules } = useRules()
   const { categories, getCategoryDisplayName, getParentCategories, getSubcategories, getCategoryById } = useCategories()
   const { members } = useMembers()
+  const { accounts } = useAccounts()
+  const { getRuleStats, fetchRuleTransactions, refetch: refetchHits } = useRuleHits()
   const [isAdding, setIsAdding] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
-  const [formData, setFormData] = useState({
-    pattern: '',
-    category_id: '',
-    member_id: '',
-  })
+  const [formData, setFormData] = useState(EMPTY_FORM)
   const [selectedParentCategory, setSelectedParentCategory] = useState('')
   const [formError, setFormError] = useState('')
   const [submitting, setSubmitting] = useState(false)
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dragOverId, setDragOverId] = useState<string | null>(null)
+  const [backfillRuleIds, setBackfillRuleIds] = useState<string[] | null>(null)
+  const [sortBy, setSortBy] = useState<RuleSort>('order')
+  const [usageFilter, setUsageFilter] = useState<RuleUsageFilter>('all')
+  const [expandedRuleId, setExpandedRuleId] = useState<string | null>(null)
+  const [ruleTransactions, setRuleTransactions] = useState<RuleHitWithTransaction[]>([])
+  const [ruleImport, setRuleImport] = useState<{ exported: RulesExport; fileName: string } | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [staleBefore] = useState(() => new Date(Date.now() - STALE_AFTER_DAYS * 24 * 60 * 60 * 1000).toISOString())
+  // Fixed so the draft rule (and the test panel's lookup of it) doesn't change on every render
+  const [draftCreatedAt] = useState(() => new Date().toISOString())
+
+  // Regular expressions are checked by the database, in the dialect that runs them
+  const regexToCheck = isAdding && formData.match_type === 'regex' && !validateRulePattern(formData.pattern, 'regex')
+    ? formData.pattern
+    : ''
+  const [regexCheck, setRegexCheck] = useState<{ pattern: string; error: string | null }>({ pattern: '', error: null })
+
+  useEffect(() => {
+    if (!regexToCheck) return
+
+    let cancelled = false
+
+    validateRulePatternOnServer(regexToCheck, 'regex')
+      .then((error) => {
+        if (!cancelled) setRegexCheck({ pattern: regexToCheck, error })
+      })
+      .catch((err) => {
+        console.error('[Rules] Pattern check failed:', err)
+        if (!cancelled) setRegexCheck({ pattern: regexToCheck, error: 'Could not check the regular expression' })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [regexToCheck])
+
+  const regexChecked = !regexToCheck || regexCheck.pattern === regexToCheck
+  const regexError = regexToCheck && regexChecked ? regexCheck.error : null
+
+  // The rule as currently written, for the test panel. A new rule goes to the end of the order.
+  const draftRule = useMemo((): Rule | null => {
+    if (!isAdding || validateRulePattern(formData.pattern, formData.match_type) || !regexChecked || regexError) return null
+
+    const existing = rules.find((r) => r.id === editingId)
+    return {
+      id: existing?.id || DRAFT_RULE_ID,
+      household_id: existing?.household_id || '',
+      pattern: formData.pattern.trim(),
+      match_type: formData.match_type,
+      category_id: formData.category_id || null,
+      member_id: formData.member_id || null,
+      priority: existing ? existing.priority : Math.max(0, ...rules.map((r) => r.priority ?? 0)) + 1,
+      stop_processing: formData.stop_processing,
+      conditions: formData.conditions,
+      condition_logic: formData.condition_logic,
+      set_vendor: formData.set_vendor.trim() || null,
+      add_tags: parseTags(formData.add_tags),
+      add_note: formData.add_note.trim() || null,
+      mark_transfer: formData.mark_transfer,
+      mark_reimbursable: formData.mark_reimbursable,
+      created_at: existing?.created_at || draftCreatedAt,
+      updated_at: existing?.updated_at || draftCreatedAt,
+    }
+  }, [isAdding, formData, rules, editingId, regexChecked, regexError, draftCreatedAt])
+
+  const otherRules = useMemo(() => rules.filter((r) => r.id !== editingId), [rules, editingId])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setFormError('')
 
-    if (!formData.pattern.trim()) {
-      setFormError('Pattern is required')
+    let patternError: string | null
+    try {
+      patternError = await validateRulePatternOnServer(formData.pattern, formData.match_type)
+    } catch (error) {
+      patternError = error instanceof Error ? error.message : 'Could not check the pattern'
+    }
+    if (patternError) {
+      setFormError(patternError)
+      return
+    }
+
+    const conditionsError = validateRuleConditions(formData.conditions)
+    if (conditionsError) {
+      setFormError(conditionsError)
       return
     }
 
-    if (!formData.category_id && !formData.member_id) {
-      setFormError('Either Category or Member must be selected')
+    const actions = {
+      set_vendor: formData.set_vendor.trim() || null,
+      add_tags: parseTags(formData.add_tags),
+      add_note: formData.add_note.trim() || null,
+      mark_transfer: formData.mark_transfer,
+      mark_reimbursable: formData.mark_reimbursable,
+    }
+
+    if (!hasRuleActions({ ...actions, category_id: formData.category_id, member_id: formData.member_id })) {
+      setFormError('Choose at least one thing for the rule to do, e.g. a category, member or tag')
       return
     }
 
@@ -38,19 +165,31 @@ export default function Rules() {
       if (editingId) {
         await updateRule(editingId, {
           pattern: formData.pattern.trim(),
+          match_type: formData.match_type,
           category_id: formData.category_id || null,
           member_id: formData.member_id || null,
+          stop_processing: formData.stop_processing,
+          conditions: formData.conditions,
+          condition_logic: formData.condition_logic,
+          ...actions,
         })
         setEditingId(null)
-        setFormData({ pattern: '', category_id: '', member_id: '' })
+        setFormData(EMPTY_FORM)
         setIsAdding(false)
       } else {
         await addRule(
           formData.pattern.trim(),
           formData.category_id || null,
-          formData.member_id || null
+          formData.member_id || null,
+          {
+            matchType: formData.match_type,
+            stopProcessing: formData.stop_processing,
+            conditions: formData.conditions,
+            conditionLogic: formData.condition_logic,
+            actions,
+          }
         )
-        setFormData({ pattern: '', category_id: '', member_id: '' })
+        setFormData(EMPTY_FORM)
         setIsAdding(false)
       }
     } catch (error) {
@@ -64,8 +203,17 @@ export default function Rules() {
     setEditingId(rule.id)
     setFormData({
       pattern: rule.pattern,
+      match_type: rule.match_type || 'contains',
       category_id: rule.category_id,
       member_id: rule.member_id || '',
+      stop_processing: rule.stop_processing || false,
+      conditions: rule.conditions || [],
+      condition_logic: rule.condition_logic || 'all',
+      set_vendor: rule.set_vendor || '',
+      add_tags: (rule.add_tags || []).join(', '),
+      add_note: rule.add_note || '',
+      mark_transfer: rule.mark_transfer || false,
+      mark_reimbursable: rule.mark_reimbursable || false,
     })
 
     // Determine parent category for editing
@@ -85,7 +233,7 @@ export default function Rules() {
   const handleCancel = () => {
     setIsAdding(false)
     setEditingId(null)
-    setFormData({ pattern: '', category_id: '', member_id: '' })
+    setFormData(EMPTY_FORM)
     setSelectedParentCategory('')
     setFormError('')
   }
@@ -114,7 +262,83 @@ export default function Rules() {
     }
   }
 
-  const getCategoryName = (categoryId: string) => {
+  const handleDrop = async (targetId: string) => {
+    const sourceId = draggedId
+    setDraggedId(null)
+    setDragOverId(null)
+    if (!sourceId || sourceId === targetId) return
+
+    // The dragged rule takes the target's place
+    const orderedIds = rules.map((r) => r.id)
+    orderedIds.splice(orderedIds.indexOf(sourceId), 1)
+    orderedIds.splice(rules.findIndex((r) => r.id === targetId), 0, sourceId)
+
+    try {
+      await reorderRules(orderedIds)
+    } catch (error) {
+      alert(`Error: ${error instanceof Error ? error.message : 'Failed to reorder rules'}`)
+    }
+  }
+
+  const handleExport = () => {
+    const exported = createRulesExport(rules, categories, members, accounts)
+    const url = URL.createObjectURL(new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `rules-${new Date().toISOString().slice(0, 10)}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // Lets the same file be picked again
+    if (!file) return
+
+    try {
+      setRuleImport({ exported: parseRulesExport(await file.text()), fileName: file.name })
+    } catch (error) {
+      alert(`Error: ${error instanceof Error ? error.message : 'Could not read the file'}`)
+    }
+  }
+
+  const toggleRuleTransactions = async (ruleId: string) => {
+    if (expandedRuleId === ruleId) {
+      setExpandedRuleId(null)
+      return
+    }
+
+    setExpandedRuleId(ruleId)
+    setRuleTransactions([])
+    const { data, error } = await fetchRuleTransactions(ruleId)
+    if (error) {
+      alert(`Error: ${error}`)
+      return
+    }
+    setRuleTransactions(data)
+  }
+
+  const displayedRules = rules
+    .filter((rule) => {
+      const { count, lastMatchedAt } = getRuleStats(rule.id)
+      if (usageFilter === 'unused') return count === 0
+      if (usageFilter === 'stale') return !lastMatchedAt || lastMatchedAt < staleBefore
+      return true
+    })
+    .sort((a, b) => {
+      const statsA = getRuleStats(a.id)
+      const statsB = getRuleStats(b.id)
+      if (sortBy === 'most-used') return statsB.count - statsA.count
+      if (sortBy === 'least-used') return statsA.count - statsB.count
+      if (sortBy === 'last-matched') return (statsB.lastMatchedAt || '').localeCompare(statsA.lastMatchedAt || '')
+      return 0
+    })
+
+  // Reordering only makes sense on the full list in evaluation order
+  const canReorder = sortBy === 'order' && usageFilter === 'all'
+
+  const getCategoryName = (categoryId: string | null) => {
+    if (!categoryId) return 'None'
     const category = categories.find((c) => c.id === categoryId)
     return category ? getCategoryDisplayName(category) : 'Unknown'
   }
@@ -142,17 +366,62 @@ export default function Rules() {
             Automatically categorize transactions based on description patterns
           </p>
         </div>
-        {!isAdding && (
+        <div className="flex space-x-3">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
           <button
-            onClick={() => {
-              setSelectedParentCategory('')
-              setIsAdding(true)
-            }}
-            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            onClick={() => importInputRef.current?.click()}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
           >
-            Add Rule
+            Import
           </button>
-        )}
+          {rules.length > 0 && (
+            <button
+              onClick={handleExport}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Export
+            </button>
+          )}
+          <Link
+            to="/rules/suggestions"
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          >
+            Suggestions
+          </Link>
+          {rules.length > 0 && (
+            <Link
+              to="/rules/analysis"
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Analyze Rules
+            </Link>
+          )}
+          {rules.length > 0 && (
+            <button
+              onClick={() => setBackfillRuleIds(rules.map((r) => r.id))}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Run on Existing Transactions
+            </button>
+          )}
+          {!isAdding && (
+            <button
+              onClick={() => {
+                setSelectedParentCategory('')
+                setIsAdding(true)
+              }}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Add Rule
+            </button>
+          )}
+        </div>
       </div>
 
       {isAdding && (
@@ -170,18 +439,52 @@ export default function Rules() {
               <label htmlFor="pattern" className="block text-sm font-medium text-gray-700 mb-1">
                 Pattern (text to match in transaction description)
               </label>
-              <input
-                id="pattern"
-                type="text"
-                value={formData.pattern}
-                onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                placeholder="e.g., STARBUCKS, AMAZON, SHELL"
+              <div className="flex gap-2">
+                <select
+                  value={formData.match_type}
+                  onChange={(e) => setFormData({ ...formData, match_type: e.target.value as RuleMatchType })}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={submitting}
+                >
+                  {RULE_MATCH_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>
+                      {type.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  id="pattern"
+                  type="text"
+                  value={formData.pattern}
+                  onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g., STARBUCKS, AMAZON, SHELL"
+                  disabled={submitting}
+                  autoFocus
+                />
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                {RULE_MATCH_TYPES.find((type) => type.value === formData.match_type)?.hint}.
+                {' '}Case-insensitive; checked against the transaction description and card number.
+              </p>
+              {regexError && <p className="mt-1 text-sm text-red-600">{regexError}</p>}
+            </div>
+
+            <RuleTestPanel draft={draftRule} otherRules={otherRules} />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Conditions (optional)
+              </label>
+              <RuleConditionsEditor
+                conditions={formData.conditions}
+                logic={formData.condition_logic}
+                accounts={accounts}
                 disabled={submitting}
-                autoFocus
+                onChange={(conditions, logic) => setFormData({ ...formData, conditions, condition_logic: logic })}
               />
               <p className="mt-1 text-sm text-gray-500">
-                Case-insensitive. Will match if transaction description or card number contains this text.
+                Only applies the rule when the pattern matches and these hold, e.g. VENMO under $20 from Checking.
               </p>
             </div>
 
@@ -250,6 +553,90 @@ export default function Rules() {
               </select>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="set-vendor" className="block text-sm font-medium text-gray-700 mb-1">
+                  Display vendor (optional)
+                </label>
+                <input
+                  id="set-vendor"
+                  type="text"
+                  value={formData.set_vendor}
+                  onChange={(e) => setFormData({ ...formData, set_vendor: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g., Amazon instead of AMZN MKTP US*2K4"
+                  disabled={submitting}
+                />
+              </div>
+              <div>
+                <label htmlFor="add-tags" className="block text-sm font-medium text-gray-700 mb-1">
+                  Tags (optional, comma-separated)
+                </label>
+                <input
+                  id="add-tags"
+                  type="text"
+                  value={formData.add_tags}
+                  onChange={(e) => setFormData({ ...formData, add_tags: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g., subscription, work"
+                  disabled={submitting}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="add-note" className="block text-sm font-medium text-gray-700 mb-1">
+                Note (optional)
+              </label>
+              <input
+                id="add-note"
+                type="text"
+                value={formData.add_note}
+                onChange={(e) => setFormData({ ...formData, add_note: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={submitting}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.mark_transfer}
+                  onChange={(e) => setFormData({ ...formData, mark_transfer: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  disabled={submitting}
+                />
+                <span className="text-sm font-medium text-gray-700">Mark as transfer (left out of reports)</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.mark_reimbursable}
+                  onChange={(e) => setFormData({ ...formData, mark_reimbursable: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  disabled={submitting}
+                />
+                <span className="text-sm font-medium text-gray-700">Mark as reimbursable</span>
+              </label>
+            </div>
+
+            <div>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.stop_processing}
+                  onChange={(e) => setFormData({ ...formData, stop_processing: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  disabled={submitting}
+                />
+                <span className="text-sm font-medium text-gray-700">Stop processing other rules when this one matches</span>
+              </label>
+              <p className="mt-1 text-sm text-gray-500">
+                Otherwise rules further down the list can still fill in whatever this rule leaves unset (e.g. the member).
+              </p>
+            </div>
+
             <div className="flex space-x-3">
               <button
                 type="submit"
@@ -290,66 +677,241 @@ export default function Rules() {
           )}
         </div>
       ) : (
-        <div className="bg-white rounded-lg shadow overflow-hidden">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50 sticky top-0 z-10 shadow-sm">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
-                  Pattern
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
-                  Category
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
-                  Member
-                </th>
-                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
-                  Actions
-                </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {rules.map((rule) => (
-                <tr key={rule.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">{rule.pattern}</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">{getCategoryName(rule.category_id)}</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-500">{getMemberName(rule.member_id)}</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <button
-                      onClick={() => handleEdit(rule)}
-                      className="text-blue-600 hover:text-blue-900 mr-4"
-                    >
-                      Edit
-                    </button>
-                    <button
-                      onClick={() => handleDelete(rule.id, rule.pattern)}
-                      className="text-red-600 hover:text-red-900"
-                    >
-                      Delete
-                    </button>
-                  </td>
+        <>
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <div className="flex items-center space-x-2">
+              <label htmlFor="rule-sort" className="text-sm font-medium text-gray-700">Sort by</label>
+              <select
+                id="rule-sort"
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as RuleSort)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="order">Evaluation order</option>
+                <option value="most-used">Most used</option>
+                <option value="least-used">Least used</option>
+                <option value="last-matched">Last matched</option>
+              </select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <label htmlFor="rule-usage" className="text-sm font-medium text-gray-700">Show</label>
+              <select
+                id="rule-usage"
+                value={usageFilter}
+                onChange={(e) => setUsageFilter(e.target.value as RuleUsageFilter)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All rules</option>
+                <option value="unused">Never used</option>
+                <option value="stale">Not used in {STALE_AFTER_DAYS} days</option>
+              </select>
+            </div>
+            {!canReorder && (
+              <span className="text-sm text-gray-500">Switch to evaluation order with all rules shown to drag rules</span>
+            )}
+          </div>
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0 z-10 shadow-sm">
+                <tr>
+                  <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
+                    Order
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
+                    Pattern
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
+                    Category
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
+                    Member
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
+                    Usage
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
+                    Actions
+                  </th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {displayedRules.map((rule) => (
+                  <Fragment key={rule.id}>
+                    <tr
+                      draggable={canReorder}
+                      onDragStart={() => setDraggedId(rule.id)}
+                      onDragOver={(e) => {
+                        e.preventDefault()
+                        setDragOverId(rule.id)
+                      }}
+                      onDragEnd={() => {
+                        setDraggedId(null)
+                        setDragOverId(null)
+                      }}
+                      onDrop={() => handleDrop(rule.id)}
+                      className={`hover:bg-gray-50 ${draggedId === rule.id ? 'opacity-50' : ''} ${
+                        dragOverId === rule.id && draggedId !== rule.id ? 'bg-blue-50' : ''
+                      }`}
+                    >
+                      <td
+                        className={`px-3 py-4 whitespace-nowrap text-sm text-gray-500 ${canReorder ? 'cursor-move' : ''}`}
+                        title={canReorder ? 'Drag to reorder' : undefined}
+                      >
+                        {canReorder && '⠿ '}{rules.indexOf(rule) + 1}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{rule.pattern}</div>
+                        {rule.match_type && rule.match_type !== 'contains' && (
+                          <span className="inline-flex px-2 py-0.5 mt-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">
+                            {RULE_MATCH_TYPE_LABELS[rule.match_type]}
+                          </span>
+                        )}
+                        {rule.conditions?.length > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {rule.conditions
+                              .map((condition) => describeCondition(condition, (id) => accounts.find((a) => a.id === id)?.name || 'Unknown'))
+                              .join(rule.condition_logic === 'any' ? ' or ' : ' and ')}
+                          </div>
+                        )}
+                        {rule.stop_processing && (
+                          <span className="inline-flex px-2 py-0.5 mt-1 ml-1 text-xs font-semibold rounded-full bg-orange-100 text-orange-800">
+                            Stops processing
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{getCategoryName(rule.category_id)}</div>
+                        {rule.set_vendor && (
+                          <div className="text-xs text-gray-500 mt-1">Vendor: {rule.set_vendor}</div>
+                        )}
+                        {rule.add_note && (
+                          <div className="text-xs text-gray-500 mt-1">Note: {rule.add_note}</div>
+                        )}
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {rule.add_tags?.map((tag) => (
+                            <span key={tag} className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700">
+                              #{tag}
+                            </span>
+                          ))}
+                          {rule.mark_transfer && (
+                            <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                              Transfer
+                            </span>
+                          )}
+                          {rule.mark_reimbursable && (
+                            <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                              Reimbursable
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-500">{getMemberName(rule.member_id)}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {(() => {
+                          const { count, lastMatchedAt } = getRuleStats(rule.id)
+                          return (
+                            <>
+                              <button
+                                onClick={() => toggleRuleTransactions(rule.id)}
+                                disabled={count === 0}
+                                className="text-sm text-blue-600 hover:text-blue-900 disabled:text-gray-400"
+                              >
+                                {count} transaction{count !== 1 ? 's' : ''}
+                              </button>
+                              <div className="text-xs text-gray-500">
+                                {lastMatchedAt ? `Last matched ${new Date(lastMatchedAt).toLocaleDateString()}` : 'Never matched'}
+                              </div>
+                            </>
+                          )
+                        })()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          onClick={() => setBackfillRuleIds([rule.id])}
+                          className="text-gray-600 hover:text-gray-900 mr-4"
+                          title="Preview and apply this rule to existing transactions"
+                        >
+                          Run
+                        </button>
+                        <button
+                          onClick={() => handleEdit(rule)}
+                          className="text-blue-600 hover:text-blue-900 mr-4"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(rule.id, rule.pattern)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedRuleId === rule.id && (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-3 bg-gray-50">
+                          {ruleTransactions.length === 0 ? (
+                            <div className="text-sm text-gray-500">Loading transactions...</div>
+                          ) : (
+                            <div className="max-h-64 overflow-y-auto space-y-1">
+                              {ruleTransactions.map((hit) => (
+                                <div key={hit.id} className="flex justify-between text-sm">
+                                  <span className="text-gray-900">
+                                    {hit.transaction
+                                      ? `${new Date(hit.transaction.date).toLocaleDateString()} · ${hit.transaction.description}`
+                                      : 'Deleted transaction'}
+                                  </span>
+                                  <span className="text-gray-500">
+                                    {hit.source} · {new Date(hit.matched_at).toLocaleDateString()}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
       )}
 
       {rules.length > 0 && (
         <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-md">
           <p className="text-sm text-blue-900">
-            <strong>How it works:</strong> When importing transactions or manually categorizing, if a
-            transaction description contains any of these patterns (case-insensitive), it will
-            automatically be assigned to the specified category and member.
+            <strong>How it works:</strong> When importing transactions or manually categorizing, rules are
+            checked from the top of the list down. The first matching rule sets the category, member, vendor and note;
+            later matching rules only fill in what is still unset and add their tags, unless a matching rule stops processing.
+            Drag rules to change their order.
           </p>
         </div>
       )}
+
+      {backfillRuleIds && (
+        <RuleBackfillDialog
+          rules={rules}
+          ruleIds={backfillRuleIds}
+          onClose={() => setBackfillRuleIds(null)}
+          onApplied={refetchHits}
+        />
+      )}
+
+      {ruleImport && (
+        <RuleImportDialog
+          exported={ruleImport.exported}
+          fileName={ruleImport.fileName}
+          rules={rules}
+          addRules={addRules}
+          updateRule={updateRule}
+          refetchRules={refetchRules}
+          onClose={() => setRuleImport(null)}
+        />
+      )}
     </div>
   )
 }
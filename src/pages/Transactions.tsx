@@ -1,11 +1,18 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { useTransactions } from '@/hooks/useTransactions'
 import { useAccounts } from '@/hooks/useAccounts'
 import { useCategories } from '@/hooks/useCategories'
 import { useMembers } from '@/hooks/useMembers'
-import { useRules } from '@/hooks/useRules'
+import { useRules, evaluateTransactionsOnServer } from '@/hooks/useRules'
+import { useHousehold } from '@/hooks/useHousehold'
+import { useCategoryClassifier } from '@/hooks/useCategoryClassifier'
+import { recordRuleHits } from '@/hooks/useRuleHits'
+import type { RuleEvaluation } from '@/lib/ruleMatching'
+import { getRuleEffectUpdates } from '@/lib/ruleBackfill'
 import { suggestCategories } from '@/lib/categorySuggestions'
+import { predictCategories } from '@/lib/categoryClassifier'
 import CSVImport from '@/components/transactions/CSVImport'
+import CategoryPredictions from '@/components/transactions/CategoryPredictions'
 import { isExpense, isIncome } from '@/lib/transactionUtils'
 
 type TabType = 'unmapped' | 'mapped'
@@ -16,6 +23,8 @@ export default function Transactions() {
   const { categories, addCategory, refetch: refetchCategories, getCategoryDisplayName, getParentCategories, getSubcategories, getCategoryById } = useCategories()
   const { members } = useMembers()
   const { addRule } = useRules()
+  const { household } = useHousehold()
+  const classifier = useCategoryClassifier(transactions)
   const [activeTab, setActiveTab] = useState<TabType>('unmapped')
   const [showImport, setShowImport] = useState(false)
   const [filterAccount, setFilterAccount] = useState<string>('')
@@ -36,6 +45,12 @@ export default function Transactions() {
   const [categorySuggestions, setCategorySuggestions] = useState<string[]>([])
   const tableRef = useRef<HTMLDivElement>(null)
 
+  // Predicted categories for every uncategorized transaction
+  const predictions = useMemo(
+    () => new Map(transactions.filter(t => !t.category_id).map(t => [t.id, predictCategories(classifier, t)])),
+    [classifier, transactions]
+  )
+
   // Update category suggestions when name changes
   useEffect(() => {
     if (newCategoryName.trim().length > 2) {
@@ -88,6 +103,22 @@ export default function Transactions() {
     }
   }
 
+  const handlePredictionSelect = async (transactionId: string, categoryId: string) => {
+    const { error } = await updateTransaction(transactionId, {
+      category_id: categoryId,
+    })
+    if (error) {
+      alert(`Error: ${error}`)
+    } else {
+      showSaveNotification('Category saved!')
+    }
+  }
+
+  const getCategoryName = (categoryId: string) => {
+    const category = getCategoryById(categoryId)
+    return category ? getCategoryDisplayName(category) : 'Unknown'
+  }
+
   const handleSubcategoryChange = async (transactionId: string, subcategoryId: string) => {
     // Get current transaction to find its current parent category
     const transaction = transactions.find(t => t.id === transactionId)
@@ -178,30 +209,44 @@ export default function Transactions() {
 
     try {
       // Create the rule
-      await addRule(
+      const rule = await addRule(
         transaction.description,
         transaction.category_id || null,
         transaction.member_id
       )
 
-      // Find all uncategorized transactions that match this description
-      const matchingTransactions = transactions.filter(t =>
-        !t.category_id &&
-        t.description.toLowerCase().includes(transaction.description.toLowerCase())
-      )
+      // Find all uncategorized transactions the new rule applies to, evaluated by
+      // the database with the full rule set so higher-priority and stop-processing rules still win
+      const candidates = transactions.filter(t => !t.category_id)
+      const evaluations = household && candidates.length > 0
+        ? await evaluateTransactionsOnServer(household.id, candidates.map(t => t.id))
+        : new Map<string, RuleEvaluation>()
+      const matchingTransactions = candidates.flatMap(t => {
+        const result = evaluations.get(t.id)
+        return result?.matchedRuleIds.includes(rule.id) ? [{ transaction: t, result }] : []
+      })
 
-      // Apply the categorization to all matching uncategorized transactions
+      // Apply the rules' results to all matching uncategorized transactions
       let updatedCount = 0
-      for (const matchingTx of matchingTransactions) {
+      const hits: { ruleId: string; transactionId: string }[] = []
+      for (const { transaction: matchingTx, result } of matchingTransactions) {
         const { error } = await updateTransaction(matchingTx.id, {
-          category_id: transaction.category_id || null,
-          member_id: transaction.member_id || null,
+          category_id: result.categoryId,
+          member_id: result.memberId,
+          ...getRuleEffectUpdates(result, matchingTx),
         })
         if (!error) {
           updatedCount++
+          hits.push(...result.matchedRuleIds.map(ruleId => ({ ruleId, transactionId: matchingTx.id })))
         }
       }
 
+      if (household && hits.length > 0) {
+        await recordRuleHits(household.id, hits, 'manual').catch(err => {
+          console.warn('[Transactions] Failed to record rule hits:', err)
+        })
+      }
+
       const ruleType = transaction.category_id && transaction.member_id
         ? 'category and member'
         : transaction.category_id
@@ -570,6 +615,28 @@ export default function Transactions() {
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-900">
                       {transaction.description}
+                      {transaction.notes && (
+                        <div className="text-xs text-gray-500 mt-1">{transaction.notes}</div>
+                      )}
+                      {(transaction.tags?.length > 0 || transaction.is_transfer || transaction.is_reimbursable) && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {transaction.tags?.map((tag) => (
+                            <span key={tag} className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700">
+                              #{tag}
+                            </span>
+                          ))}
+                          {transaction.is_transfer && (
+                            <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                              Transfer
+                            </span>
+                          )}
+                          {transaction.is_reimbursable && (
+                            <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                              Reimbursable
+                            </span>
+                          )}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {transaction.account?.name || '—'}
@@ -590,6 +657,15 @@ export default function Transactions() {
                           + Add New
                         </option>
                       </select>
+                      {!transaction.category_id && (
+                        <div className="mt-1">
+                          <CategoryPredictions
+                            predictions={predictions.get(transaction.id) || []}
+                            getCategoryName={getCategoryName}
+                            onSelect={(categoryId) => handlePredictionSelect(transaction.id, categoryId)}
+                          />
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
                       {(() => {